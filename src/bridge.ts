@@ -7,14 +7,17 @@
  * @module @sekha/sdk/bridge
  */
 
-import { Message as _Message } from './types';
-import {
-  SekhaError,
-  SekhaValidationError,
-  SekhaAPIError,
-  SekhaAuthError,
-  SekhaConnectionError,
-} from './errors';
+import { Message as _Message, CallOptions } from './types';
+import { SekhaValidationError, SekhaConnectionError, SekhaAbortError } from './errors';
+import { FetchLike, HttpMethod, HttpTransport, Transport, TransportRequest, readJSON } from './transport';
+import { Middleware, applyMiddleware } from './middleware';
+import type { RetryPolicy } from './retry';
+import { CircuitBreaker, CircuitBreakerOptions, toCircuitBreaker, withCircuitBreaker } from './circuit';
+import { ConcurrencyLimiter, toConcurrencyLimiter, withConcurrencyLimit } from './concurrency';
+import type { RateLimiter } from './ratelimit';
+import { Tracer, Span, traceRequest, recordResponse, recordUsage } from './tracing';
+import { MetricsRegistry, measureRequest, recordTokenUsage } from './metrics';
+import { Logger, LogLevel, createLogger } from './logger';
 
 // ============================================
 // Bridge Types
@@ -78,6 +81,8 @@ export interface CompletionChunk {
   created: number;
   model: string;
   choices: StreamChoice[];
+  /** Sent on the last chunk when the server reports streamed usage */
+  usage?: CompletionUsage;
 }
 
 /**
@@ -196,6 +201,30 @@ export interface BridgeConfig {
   apiKey?: string; // Optional API key for authentication
   timeout?: number;
   maxRetries?: number;
+  /** Custom transport (overrides fetch, timeout and maxRetries handling) */
+  transport?: Transport;
+  /** Custom fetch implementation for the default transport */
+  fetch?: FetchLike;
+  /** Middleware run around every request */
+  middleware?: Middleware[];
+  /** Retry policy overrides */
+  retry?: Partial<RetryPolicy>;
+  /** Circuit breaker instance or options (disabled by default) */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions | boolean;
+  /** Rate limiter; requests use the 'llm' endpoint class (none by default) */
+  rateLimiter?: RateLimiter;
+  /** Max in-flight requests; extra requests queue by priority (unlimited by default) */
+  maxConcurrency?: number | ConcurrencyLimiter;
+  /** Tracer for per-request spans (e.g. an OpenTelemetry tracer) */
+  tracer?: Tracer;
+  /** Logger for requests, retries and parse failures (API keys are always redacted) */
+  logger?: Logger;
+  /** Minimum log level (default: 'info') */
+  logLevel?: LogLevel;
+  /** Mask message content and queries in log output */
+  maskContent?: boolean;
+  /** Registry for request, retry, rate-limit and token metrics */
+  metrics?: MetricsRegistry;
 }
 
 // ============================================
@@ -242,7 +271,23 @@ export interface BridgeConfig {
  * ```
  */
 export class BridgeClient {
-  private config: Required<BridgeConfig>;
+  private config: Required<
+    Omit<
+      BridgeConfig,
+      'transport' | 'fetch' | 'middleware' | 'retry' | 'circuitBreaker' | 'rateLimiter' | 'maxConcurrency' | 'tracer'
+      | 'logger' | 'logLevel' | 'maskContent' | 'metrics'
+    >
+  >;
+  private transport: Transport;
+  private tracer?: Tracer;
+  private logger: Logger;
+  private metrics?: MetricsRegistry;
+
+  /** Circuit breaker guarding this client's backend, if enabled */
+  public readonly circuitBreaker?: CircuitBreaker;
+
+  /** Concurrency limiter queueing this client's requests, if enabled */
+  public readonly concurrency?: ConcurrencyLimiter;
 
   constructor(config: BridgeConfig) {
     // Validate URL
@@ -261,6 +306,30 @@ export class BridgeClient {
       timeout: config.timeout ?? 60000, // 60s for LLM operations
       maxRetries: config.maxRetries ?? 3,
     };
+
+    this.circuitBreaker = toCircuitBreaker(config.circuitBreaker, 'bridge');
+    this.concurrency = toConcurrencyLimiter(config.maxConcurrency);
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    this.logger = createLogger(config.logger, {
+      level: config.logLevel,
+      maskContent: config.maskContent,
+      secrets: [config.apiKey],
+    });
+    const transport = config.transport ?? new HttpTransport({
+      fetch: config.fetch,
+      timeout: this.config.timeout,
+      maxRetries: this.config.maxRetries,
+      retry: config.retry,
+      service: 'Bridge',
+      rateLimiter: config.rateLimiter,
+      logger: this.logger,
+    });
+    this.transport = applyMiddleware(
+      withConcurrencyLimit(withCircuitBreaker(transport, this.circuitBreaker), this.concurrency),
+      config.middleware,
+      'Bridge'
+    );
   }
 
   /**
@@ -269,6 +338,7 @@ export class BridgeClient {
    * POST /v1/chat/completions (OpenAI-compatible)
    * 
    * @param request - Completion request
+   * @param options - Queue priority and abort signal
    * @returns Completion response
    * 
    * @example
@@ -287,13 +357,15 @@ export class BridgeClient {
    * console.log(`Tokens used: ${response.usage.total_tokens}`);
    * ```
    */
-  async complete(request: CompletionRequest): Promise<CompletionResponse> {
+  async complete(request: CompletionRequest, options: CallOptions = {}): Promise<CompletionResponse> {
     return this.request<CompletionResponse>(
       '/v1/chat/completions',
       {
         ...request,
         stream: false, // Ensure non-streaming
-      } as unknown as Record<string, unknown>
+      } as unknown as Record<string, unknown>,
+      'POST',
+      options
     );
   }
 
@@ -303,8 +375,14 @@ export class BridgeClient {
    * POST /v1/chat/completions with stream=true
    * Returns Server-Sent Events (SSE)
    * 
+   * The span stays open until the stream ends, and usage reported on
+   * the last chunk is recorded like complete()'s. Aborting `signal` or
+   * breaking out of the loop cancels the response body.
+   * 
    * @param request - Completion request
+   * @param options - Queue priority and abort signal
    * @returns Async iterator of completion chunks
+   * @throws SekhaAbortError if `signal` aborts
    * 
    * @example
    * ```typescript
@@ -325,48 +403,78 @@ export class BridgeClient {
    * ```
    */
   async *streamComplete(
-    request: CompletionRequest
+    request: CompletionRequest,
+    options: CallOptions = {}
   ): AsyncIterableIterator<CompletionChunk> {
-    const url = `${this.config.baseURL}/v1/chat/completions`;
+    // Streams are not retried once the body starts flowing
+    const streamRequest: TransportRequest = {
+      method: 'POST',
+      url: `${this.config.baseURL}/v1/chat/completions`,
+      headers: this.getHeaders(),
+      body: JSON.stringify({
+        ...request,
+        stream: true,
+      }),
+      maxRetries: 0,
+      endpointClass: 'llm',
+      signal: options.signal,
+      priority: options.priority,
+    };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout
+    let span: Span | undefined;
+    let endSpan: ((error?: unknown) => void) | undefined;
+    const response = await measureRequest(this.metrics, 'bridge', '/v1/chat/completions', streamRequest, measured =>
+      traceRequest(this.tracer, 'bridge', '/v1/chat/completions', measured, async (traced, tracedSpan, keepOpen) => {
+        const streamResponse = await this.transport.send(traced);
+        tracedSpan?.setAttribute('sekha.stream', true);
+        recordResponse(tracedSpan, streamResponse.status, undefined);
+        span = tracedSpan;
+        endSpan = keepOpen?.();
+        return streamResponse;
+      })
     );
 
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify({
-          ...request,
-          stream: true,
-        }),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        await this.handleError(response);
-      }
+    if (!response.body) {
+      const error = new SekhaConnectionError('No response body for streaming');
+      endSpan?.(error);
+      throw error;
+    }
 
-      if (!response.body) {
-        throw new SekhaConnectionError('No response body for streaming');
-      }
+    const { signal } = options;
+    const reader = response.body.getReader();
+    const cancel = () => {
+      reader.cancel().catch(() => undefined);
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
 
+    let finished = false;
+    let failure: unknown;
+    try {
       // Parse SSE stream
-      const reader = response.body.getReader();
       const decoder = new TextDecoder();
       let buffer = '';
 
       while (true) {
-        const { done, value } = await reader.read();
-        
-        if (done) break;
+        throwIfAborted(signal);
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error: unknown) {
+          throwIfAborted(signal, error);
+          throw new SekhaConnectionError(
+            `Streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            { cause: error }
+          );
+        }
+        // A reader cancelled by the abort reports done
+        throwIfAborted(signal);
+
+        if (result.done) {
+          finished = true;
+          break;
+        }
 
-        buffer += decoder.decode(value, { stream: true });
+        buffer += decoder.decode(result.value, { stream: true });
         const lines = buffer.split('\n');
         buffer = lines.pop() || '';
 
@@ -377,28 +485,34 @@ export class BridgeClient {
           
           if (data === '[DONE]') continue;
 
+          let chunk: CompletionChunk;
           try {
-            const chunk: CompletionChunk = JSON.parse(data);
-            yield chunk;
-          } catch {
-            // Skip malformed chunks
+            chunk = JSON.parse(data);
+          } catch (error: unknown) {
+            // Skip malformed chunks, but leave a trace
+            this.logger.warn('Skipping malformed SSE chunk', { raw: data, error });
+            continue;
           }
+
+          if (chunk.usage) {
+            recordUsage(span, chunk.usage);
+            if (this.metrics) {
+              recordTokenUsage(this.metrics, 'bridge', chunk);
+            }
+          }
+          yield chunk;
         }
       }
     } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new SekhaConnectionError(
-          `Stream timed out after ${this.config.timeout}ms`
-        );
+      failure = error;
+      throw error;
+    } finally {
+      signal?.removeEventListener('abort', cancel);
+      // Stopped early: release the connection
+      if (!finished) {
+        await reader.cancel().catch(() => undefined);
       }
-
-      if (error instanceof SekhaError) {
-        throw error;
-      }
-
-      throw new SekhaConnectionError(`Streaming failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      endSpan?.(failure);
     }
   }
 
@@ -408,6 +522,7 @@ export class BridgeClient {
    * POST /api/v1/embed
    * 
    * @param request - Embed request
+   * @param options - Queue priority and abort signal
    * @returns Embedding vector
    * 
    * @example
@@ -421,8 +536,8 @@ export class BridgeClient {
    * console.log(`Vector: ${response.embedding.slice(0, 5)}...`);
    * ```
    */
-  async embed(request: EmbedRequest): Promise<EmbedResponse> {
-    return this.request<EmbedResponse>('/api/v1/embed', request as unknown as Record<string, unknown>);
+  async embed(request: EmbedRequest, options: CallOptions = {}): Promise<EmbedResponse> {
+    return this.request<EmbedResponse>('/api/v1/embed', request as unknown as Record<string, unknown>, 'POST', options);
   }
 
   /**
@@ -431,6 +546,7 @@ export class BridgeClient {
    * POST /api/v1/summarize
    * 
    * @param request - Summarize request
+   * @param options - Queue priority and abort signal
    * @returns Summary text
    * 
    * @example
@@ -449,7 +565,7 @@ export class BridgeClient {
    * console.log(`Summarized ${response.message_count} messages`);
    * ```
    */
-  async summarize(request: SummarizeRequest): Promise<SummarizeResponse> {
+  async summarize(request: SummarizeRequest, options: CallOptions = {}): Promise<SummarizeResponse> {
     if (!['daily', 'weekly', 'monthly'].includes(request.level)) {
       throw new SekhaValidationError(
         'Invalid summary level',
@@ -457,7 +573,12 @@ export class BridgeClient {
       );
     }
 
-    return this.request<SummarizeResponse>('/api/v1/summarize', request as unknown as Record<string, unknown>);
+    return this.request<SummarizeResponse>(
+      '/api/v1/summarize',
+      request as unknown as Record<string, unknown>,
+      'POST',
+      options
+    );
   }
 
   /**
@@ -466,6 +587,7 @@ export class BridgeClient {
    * POST /api/v1/extract
    * 
    * @param request - Extract request
+   * @param options - Queue priority and abort signal
    * @returns Extracted entities
    * 
    * @example
@@ -479,8 +601,8 @@ export class BridgeClient {
    * });
    * ```
    */
-  async extract(request: ExtractRequest): Promise<ExtractResponse> {
-    return this.request<ExtractResponse>('/api/v1/extract', request as unknown as Record<string, unknown>);
+  async extract(request: ExtractRequest, options: CallOptions = {}): Promise<ExtractResponse> {
+    return this.request<ExtractResponse>('/api/v1/extract', request as unknown as Record<string, unknown>, 'POST', options);
   }
 
   /**
@@ -489,6 +611,7 @@ export class BridgeClient {
    * POST /api/v1/score
    * 
    * @param request - Score request
+   * @param options - Queue priority and abort signal
    * @returns Importance score (1-10)
    * 
    * @example
@@ -501,8 +624,8 @@ export class BridgeClient {
    * console.log(`Reasoning: ${response.reasoning}`);
    * ```
    */
-  async score(request: ScoreRequest): Promise<ScoreResponse> {
-    return this.request<ScoreResponse>('/api/v1/score', request as unknown as Record<string, unknown>);
+  async score(request: ScoreRequest, options: CallOptions = {}): Promise<ScoreResponse> {
+    return this.request<ScoreResponse>('/api/v1/score', request as unknown as Record<string, unknown>, 'POST', options);
   }
 
   /**
@@ -520,43 +643,7 @@ export class BridgeClient {
    * ```
    */
   async health(): Promise<BridgeHealthStatus> {
-    const url = `${this.config.baseURL}/health`;
-
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout
-    );
-
-    try {
-      const response = await fetch(url, {
-        method: 'GET',
-        headers: this.getHeaders(),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        await this.handleError(response);
-      }
-
-      return await response.json();
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new SekhaConnectionError(
-          `Health check timed out after ${this.config.timeout}ms`
-        );
-      }
-
-      if (error instanceof SekhaError) {
-        throw error;
-      }
-
-      throw new SekhaConnectionError(`Health check failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
+    return this.request<BridgeHealthStatus>('/health', undefined, 'GET');
   }
 
   /**
@@ -564,59 +651,30 @@ export class BridgeClient {
    */
   private async request<T>(
     endpoint: string,
-    data: Record<string, unknown>,
-    retryCount: number = 0
+    data?: Record<string, unknown>,
+    method: HttpMethod = 'POST',
+    options: CallOptions = {}
   ): Promise<T> {
-    const url = `${this.config.baseURL}${endpoint}`;
+    const request: TransportRequest = {
+      method,
+      url: `${this.config.baseURL}${endpoint}`,
+      headers: this.getHeaders(),
+      body: data ? JSON.stringify(data) : undefined,
+      // Bridge operations are stateless computations, safe to repeat
+      idempotent: true,
+      endpointClass: method === 'GET' ? 'read' : 'llm',
+      signal: options.signal,
+      priority: options.priority,
+    };
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout
+    return measureRequest(this.metrics, 'bridge', endpoint, request, measured =>
+      traceRequest(this.tracer, 'bridge', endpoint, measured, async (traced, span) => {
+        const response = await this.transport.send(traced);
+        const result = await readJSON<T>(response, this.logger);
+        recordResponse(span, response.status, result);
+        return result;
+      })
     );
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: this.getHeaders(),
-        body: JSON.stringify(data),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        await this.handleError(response);
-      }
-
-      return await response.json();
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
-
-      // Handle timeout
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new SekhaConnectionError(
-          `Request timed out after ${this.config.timeout}ms`
-        );
-      }
-
-      // Retry on network errors
-      if (
-        retryCount < this.config.maxRetries &&
-        this.isRetryableError(error)
-      ) {
-        await this.wait(Math.pow(2, retryCount) * 500);
-        return this.request(endpoint, data, retryCount + 1);
-      }
-
-      // Re-throw Sekha errors
-      if (error instanceof SekhaError) {
-        throw error;
-      }
-
-      // Wrap unknown errors
-      throw new SekhaConnectionError(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
-    }
   }
 
   /**
@@ -634,66 +692,10 @@ export class BridgeClient {
 
     return headers;
   }
+}
 
-  /**
-   * Handle HTTP error responses
-   */
-  private async handleError(response: Response): Promise<never> {
-    let errorData: Record<string, unknown>;
-
-    try {
-      errorData = await response.json();
-    } catch {
-      errorData = { detail: 'Failed to parse error response' };
-    }
-
-    const message = String(errorData.detail || errorData.error || 'Unknown error');
-
-    switch (response.status) {
-      case 400:
-        throw new SekhaValidationError(message, JSON.stringify(errorData));
-
-      case 401:
-      case 403:
-        throw new SekhaAuthError(
-          'Bridge authentication failed. Check your API key.'
-        );
-
-      case 404:
-        throw new SekhaAPIError(
-          'Bridge endpoint not found',
-          response.status,
-          JSON.stringify(errorData)
-        );
-
-      case 503:
-        throw new SekhaConnectionError(
-          'Bridge service unavailable. Check if bridge is running.'
-        );
-
-      default:
-        throw new SekhaAPIError(
-          message,
-          response.status,
-          JSON.stringify(errorData)
-        );
-    }
-  }
-
-  /**
-   * Check if error is retryable
-   */
-  private isRetryableError(error: unknown): boolean {
-    if (error instanceof SekhaAuthError) return false;
-    if (error instanceof SekhaValidationError) return false;
-
-    return true;
-  }
-
-  /**
-   * Wait helper for backoff
-   */
-  private wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+function throwIfAborted(signal?: AbortSignal, cause?: unknown): void {
+  if (signal?.aborted) {
+    throw new SekhaAbortError('Stream aborted', { cause });
   }
 }
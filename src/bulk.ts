@@ -0,0 +1,92 @@
+/**
+ * Bulk operations for Sekha clients
+ *
+ * Runs one request per item with a bounded number in flight and
+ * collects per-item outcomes, so a single failure never aborts the
+ * rest of the batch.
+ *
+ * @module @sekha/sdk/bulk
+ */
+
+import { SekhaValidationError } from './errors';
+import type { BulkOperationResult, BulkOptions } from './types';
+
+const DEFAULT_BULK_CONCURRENCY = 5;
+
+/**
+ * Run an operation for every item and report each outcome
+ *
+ * Items not yet started when the signal aborts are reported as failed.
+ *
+ * @param items - Items to process
+ * @param idOf - ID reported for an item
+ * @param operation - Processes one item; may return the ID to report on success
+ * @param options - Concurrency and abort signal
+ */
+export async function runBulk<T>(
+  items: T[],
+  idOf: (item: T, index: number) => string,
+  operation: (item: T, index: number) => Promise<string | void>,
+  options: BulkOptions = {}
+): Promise<BulkOperationResult> {
+  const outcomes = await mapConcurrent(items, options.concurrency ?? DEFAULT_BULK_CONCURRENCY, async (item, index) => {
+    if (options.signal?.aborted) {
+      return { id: idOf(item, index), error: 'Operation aborted' };
+    }
+
+    try {
+      const id = await operation(item, index);
+      return { id: id ?? idOf(item, index) };
+    } catch (error: unknown) {
+      return {
+        id: idOf(item, index),
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  });
+
+  const succeeded: string[] = [];
+  const errors: NonNullable<BulkOperationResult['errors']> = [];
+  outcomes.forEach((outcome, index) => {
+    if (outcome.error === undefined) {
+      succeeded.push(outcome.id);
+    } else {
+      errors.push({ id: outcome.id, error: outcome.error, index });
+    }
+  });
+
+  return { success: succeeded.length, failed: errors.length, succeeded, errors };
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight
+ *
+ * Results keep input order; the first failure rejects the whole map.
+ *
+ * @throws SekhaValidationError unless `concurrency` is a positive integer
+ */
+export async function mapConcurrent<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new SekhaValidationError(
+      'Invalid concurrency',
+      `concurrency must be a positive integer, got ${concurrency}`
+    );
+  }
+
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,309 @@
+/**
+ * Circuit breaker for Sekha backend services
+ *
+ * Stops sending requests to a backend that keeps failing, so calls
+ * fail fast with SekhaCircuitOpenError instead of waiting for the
+ * full timeout and retry cycle. After `resetTimeout` a single trial
+ * request is let through (half-open); its outcome closes or re-opens
+ * the circuit. Calls cancelled by the caller count as neither.
+ *
+ * @module @sekha/sdk/circuit
+ */
+
+import {
+  SekhaError,
+  SekhaAPIError,
+  SekhaAbortError,
+  SekhaCircuitOpenError,
+  SekhaConnectionError,
+} from './errors';
+import type { Transport } from './transport';
+
+// ============================================
+// Circuit Breaker Types
+// ============================================
+
+/**
+ * Circuit state
+ */
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * State transition event
+ */
+export interface CircuitStateChange {
+  /** Breaker name (e.g. 'controller', 'bridge') */
+  name: string;
+  from: CircuitState;
+  to: CircuitState;
+  /** Transition time (epoch ms) */
+  at: number;
+  /** Consecutive failures at transition time */
+  failures: number;
+}
+
+/**
+ * Circuit breaker configuration
+ */
+export interface CircuitBreakerOptions {
+  /** Breaker name used in events and errors */
+  name?: string;
+  /** Consecutive failures that open the circuit (default: 5) */
+  failureThreshold?: number;
+  /** Time the circuit stays open before a trial request (ms, default: 30000) */
+  resetTimeout?: number;
+  /** Successful trial requests needed to close again (default: 1) */
+  successThreshold?: number;
+  /** Decide whether an error counts as a backend failure */
+  isFailure?: (error: unknown) => boolean;
+  /** Called on every state transition */
+  onStateChange?: (event: CircuitStateChange) => void;
+}
+
+/**
+ * Point-in-time breaker status
+ */
+export interface CircuitSnapshot {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  /** When the open circuit will allow a trial request (epoch ms) */
+  nextAttemptAt?: number;
+}
+
+/**
+ * Default failure classifier: connection errors, timeouts and 5xx
+ *
+ * Auth, validation and not-found errors mean the backend is up.
+ */
+export function isBackendFailure(error: unknown): boolean {
+  if (error instanceof SekhaAPIError) {
+    return error.statusCode >= 500;
+  }
+  return error instanceof SekhaConnectionError || !(error instanceof SekhaError);
+}
+
+// ============================================
+// Circuit Breaker
+// ============================================
+
+/**
+ * Closed / open / half-open circuit breaker
+ *
+ * @example
+ * ```typescript
+ * const breaker = new CircuitBreaker({
+ *   name: 'bridge',
+ *   failureThreshold: 3,
+ *   resetTimeout: 10000,
+ *   onStateChange: e => console.warn(`${e.name}: ${e.from} -> ${e.to}`)
+ * });
+ *
+ * const bridge = new BridgeClient({ baseURL, circuitBreaker: breaker });
+ * ```
+ */
+export class CircuitBreaker {
+  private readonly options: Required<Omit<CircuitBreakerOptions, 'onStateChange'>>;
+  private readonly listeners = new Set<(event: CircuitStateChange) => void>();
+  private currentState: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+
+  constructor(options: CircuitBreakerOptions = {}) {
+    this.options = {
+      name: options.name ?? 'default',
+      failureThreshold: options.failureThreshold ?? 5,
+      resetTimeout: options.resetTimeout ?? 30000,
+      successThreshold: options.successThreshold ?? 1,
+      isFailure: options.isFailure ?? isBackendFailure,
+    };
+
+    if (options.onStateChange) {
+      this.listeners.add(options.onStateChange);
+    }
+  }
+
+  /**
+   * Current state (an expired open circuit reports half-open)
+   */
+  get state(): CircuitState {
+    if (this.currentState === 'open' && Date.now() - this.openedAt >= this.options.resetTimeout) {
+      return 'half-open';
+    }
+    return this.currentState;
+  }
+
+  get name(): string {
+    return this.options.name;
+  }
+
+  /**
+   * Subscribe to state changes
+   *
+   * @returns Unsubscribe function
+   */
+  onStateChange(listener: (event: CircuitStateChange) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Run an operation through the breaker
+   *
+   * @throws SekhaCircuitOpenError while the circuit is open
+   */
+  async execute<T>(operation: () => Promise<T>): Promise<T> {
+    this.beforeCall();
+
+    const isTrial = this.currentState === 'half-open';
+    if (isTrial) {
+      this.trialInFlight = true;
+    }
+
+    try {
+      const result = await operation();
+      this.onSuccess();
+      return result;
+    } catch (error: unknown) {
+      // A cancelled call says nothing about the backend; the finally
+      // block still frees the trial slot
+      if (error instanceof SekhaAbortError) {
+        throw error;
+      }
+      if (this.options.isFailure(error)) {
+        this.onFailure();
+      } else {
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) {
+        this.trialInFlight = false;
+      }
+    }
+  }
+
+  /**
+   * Force the circuit closed and clear counters
+   */
+  reset(): void {
+    this.failures = 0;
+    this.successes = 0;
+    this.transition('closed');
+  }
+
+  /**
+   * Current breaker status
+   */
+  getSnapshot(): CircuitSnapshot {
+    const state = this.state;
+    return {
+      name: this.options.name,
+      state,
+      failures: this.failures,
+      nextAttemptAt: state === 'open' ? this.openedAt + this.options.resetTimeout : undefined,
+    };
+  }
+
+  private beforeCall(): void {
+    if (this.currentState === 'open') {
+      const remaining = this.openedAt + this.options.resetTimeout - Date.now();
+      if (remaining > 0) {
+        throw this.openError(remaining);
+      }
+      this.successes = 0;
+      this.transition('half-open');
+    }
+
+    // Only one trial request at a time while half-open
+    if (this.currentState === 'half-open' && this.trialInFlight) {
+      throw this.openError(0);
+    }
+  }
+
+  private onSuccess(): void {
+    if (this.currentState === 'half-open') {
+      this.successes++;
+      if (this.successes >= this.options.successThreshold) {
+        this.failures = 0;
+        this.transition('closed');
+      }
+      return;
+    }
+    this.failures = 0;
+  }
+
+  private onFailure(): void {
+    this.failures++;
+
+    if (this.currentState === 'half-open' || this.failures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      this.transition('open');
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.currentState;
+    if (from === to) {
+      return;
+    }
+
+    this.currentState = to;
+    const event: CircuitStateChange = {
+      name: this.options.name,
+      from,
+      to,
+      at: Date.now(),
+      failures: this.failures,
+    };
+
+    for (const listener of this.listeners) {
+      listener(event);
+    }
+  }
+
+  private openError(retryAfterMs: number): SekhaCircuitOpenError {
+    return new SekhaCircuitOpenError(
+      `Circuit '${this.options.name}' is open; failing fast`,
+      this.options.name,
+      retryAfterMs
+    );
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Resolve a client's circuitBreaker option into a breaker instance
+ */
+export function toCircuitBreaker(
+  option: CircuitBreaker | CircuitBreakerOptions | boolean | undefined,
+  name: string
+): CircuitBreaker | undefined {
+  if (!option) {
+    return undefined;
+  }
+  if (option instanceof CircuitBreaker) {
+    return option;
+  }
+  return new CircuitBreaker({ name, ...(option === true ? {} : option) });
+}
+
+/**
+ * Wrap a transport so every call goes through the breaker
+ */
+export function withCircuitBreaker(transport: Transport, breaker?: CircuitBreaker): Transport {
+  if (!breaker) {
+    return transport;
+  }
+
+  return {
+    send: request => breaker.execute(() => transport.send(request)),
+  };
+}
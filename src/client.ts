@@ -15,13 +15,14 @@ import {
   SearchOptions,
   ContextOptions,
   ExportOptions,
-  SearchResult as _SearchResult,
   QueryResponse,
   FtsSearchRequest,
+  QueryRequest,
   FtsSearchResponse,
   ContextAssembly,
   PruningSuggestion as _PruningSuggestion,
   PruneResponse,
+  PruningSuggestion,
   LabelSuggestion as _LabelSuggestion,
   LabelSuggestResponse,
   SummarizeRequest,
@@ -30,72 +31,104 @@ import {
   Metrics,
   CountResponse,
   ExecutePruneRequest,
-  Message as _Message,
+  MutationOptions,
+  CallOptions,
+  PaginateOptions,
+  BulkOptions,
+  BulkOperationResult,
+  HybridSearchOptions,
+  HybridSearchResponse,
+  SearchResult,
+  FtsMessage,
+  ConversationStatus,
+  Message,
+  MessageListOptions,
+  MessagePage,
+  FolderNode,
+  FolderTreeOptions,
+  FolderMoveOptions,
+  FolderMoveResult,
+  LabelCount,
+  LabelMergeOptions,
+  LabelMergeResult,
+  RebuildEmbeddingsResponse,
+  ConversationExportOptions,
+  ExportToOptions,
+  ExportedConversation,
+  ExportWriteResult,
+  RebuildEmbeddingsStatusResponse,
+  isValidStatus,
 } from './types';
+import type { MemoryStatsResponse } from './mcp';
+import { SekhaAPIError, SekhaNotFoundError, SekhaValidationError } from './errors';
 import {
-  SekhaError,
-  SekhaNotFoundError,
-  SekhaValidationError,
-  SekhaAPIError,
-  SekhaAuthError,
-  SekhaConnectionError,
-} from './errors';
-
-/**
- * Rate limiter for client-side request throttling
- */
-class RateLimiter {
-  private requests: number[] = [];
-  private readonly limit: number;
-  private readonly windowMs: number;
-
-  constructor(limit: number = 1000, windowSec: number = 60) {
-    this.limit = limit;
-    this.windowMs = windowSec * 1000;
-  }
-
-  async acquire(): Promise<void> {
-    const now = Date.now();
-    
-    // Remove expired timestamps
-    this.requests = this.requests.filter(time => now - time < this.windowMs);
-
-    if (this.requests.length >= this.limit) {
-      // Calculate wait time
-      const oldestRequest = this.requests[0];
-      const waitMs = this.windowMs - (now - oldestRequest);
-      
-      if (waitMs > 0) {
-        await new Promise(resolve => setTimeout(resolve, waitMs));
-        return this.acquire(); // Retry after waiting
-      }
-    }
-
-    this.requests.push(now);
-  }
-}
-
-/**
- * Exponential backoff for retry logic
- */
-class ExponentialBackoff {
-  private readonly baseDelay: number;
-  private readonly maxDelay: number;
-  private readonly factor: number;
-
-  constructor(baseDelay: number = 500, maxDelay: number = 10000, factor: number = 2) {
-    this.baseDelay = baseDelay;
-    this.maxDelay = maxDelay;
-    this.factor = factor;
-  }
-
-  async wait(attempt: number): Promise<void> {
-    const delay = Math.min(
-      this.baseDelay * Math.pow(this.factor, attempt),
-      this.maxDelay
-    );
-    await new Promise(resolve => setTimeout(resolve, delay));
-  }
+  HttpTransport,
+  HttpMethod,
+  Transport,
+  TransportRequest,
+  readJSON,
+  generateIdempotencyKey,
+} from './transport';
+import { applyMiddleware } from './middleware';
+import { CircuitBreaker, toCircuitBreaker, withCircuitBreaker } from './circuit';
+import {
+  ConcurrencyLimiter,
+  RequestPriority,
+  toConcurrencyLimiter,
+  withConcurrencyLimit,
+} from './concurrency';
+import { RateLimiter, EndpointClass } from './ratelimit';
+import { Tracer, traceRequest, recordResponse } from './tracing';
+import { MetricsRegistry, measureRequest } from './metrics';
+import { Logger, createLogger } from './logger';
+import { paginate } from './pagination';
+import { runBulk, mapConcurrent } from './bulk';
+import { QueryBuilder } from './query';
+import { EmbeddingJob } from './jobs';
+import { readBody, writeChunk, openFile } from './export';
+import type { WritableLike } from './export';
+import { parseRetentionPolicy, retentionThresholdDays, evaluateRetention, estimateTokens } from './retention';
+import type {
+  RetentionPolicy,
+  RetentionPlan,
+  RetentionPlanOptions,
+  RetentionCandidate,
+  RetentionApplyOptions,
+  RetentionResult,
+  RetentionAuditEntry,
+} from './retention';
+import { fuseResults } from './hybrid';
+import { diversify } from './grouping';
+import { normalizeFolder, normalizeStoredFolder, isWithinFolder, rebaseFolder, buildFolderTree } from './folders';
+import {
+  validateFilters,
+  validateSort,
+  appendFilterParams,
+  appendSortParams,
+  compactFilters,
+} from './filters';
+
+/** Fields update() can apply */
+const UPDATE_FIELDS = ['label', 'folder', 'importanceScore', 'status'];
+
+/** ListFilter fields beyond FilterParams */
+const LIST_FIELDS = ['pinned', 'archived', 'page', 'page_size', 'limit', 'offset', 'sort'];
+
+/** Results fetched per requested result when capping hits per conversation */
+const DIVERSITY_OVERFETCH = 3;
+
+/** Requests made while topping up a diversified search */
+const MAX_DIVERSITY_PAGES = 5;
+
+/** Per-request options for the internal request handler */
+interface RequestOptions {
+  method?: HttpMethod;
+  body?: string;
+  signal?: AbortSignal;
+  idempotent?: boolean;
+  idempotencyKey?: string;
+  endpointClass?: EndpointClass;
+  priority?: RequestPriority;
 }
 
 /**
@@ -120,9 +153,31 @@ class ExponentialBackoff {
  * ```
  */
 export class MemoryController {
-  private config: Required<MemoryConfig>;
-  private rateLimiter: RateLimiter;
-  private backoff: ExponentialBackoff;
+  private config: Required<
+    Omit<
+      MemoryConfig,
+      'transport' | 'fetch' | 'middleware' | 'retry' | 'circuitBreaker' | 'rateLimiter' | 'maxConcurrency' | 'tracer'
+      | 'logger' | 'logLevel' | 'maskContent' | 'metrics'
+    >
+  >;
+  private transport: Transport;
+  private tracer?: Tracer;
+  private logger: Logger;
+  private metrics?: MetricsRegistry;
+
+  /** Set once the controller is known to lack the messages route */
+  private messagesRouteMissing = false;
+  /** Set once the controller is known to lack the rebuild status route */
+  private rebuildStatusRouteMissing = false;
+
+  /** Rate limiter applied by the default transport */
+  public readonly rateLimiter: RateLimiter;
+
+  /** Circuit breaker guarding this client's backend, if enabled */
+  public readonly circuitBreaker?: CircuitBreaker;
+
+  /** Concurrency limiter queueing this client's requests, if enabled */
+  public readonly concurrency?: ConcurrencyLimiter;
 
   constructor(config: MemoryConfig) {
     // Validate API key
@@ -150,10 +205,31 @@ export class MemoryController {
       timeout: config.timeout ?? 30000,
       maxRetries: config.maxRetries ?? 3,
       rateLimit: config.rateLimit ?? 1000,
+      idempotencyKeys: config.idempotencyKeys ?? true,
     };
 
-    this.rateLimiter = new RateLimiter(this.config.rateLimit, 60);
-    this.backoff = new ExponentialBackoff();
+    this.rateLimiter = config.rateLimiter ?? new RateLimiter({ requestsPerMinute: this.config.rateLimit });
+    this.circuitBreaker = toCircuitBreaker(config.circuitBreaker, 'controller');
+    this.concurrency = toConcurrencyLimiter(config.maxConcurrency);
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    this.logger = createLogger(config.logger, {
+      level: config.logLevel,
+      maskContent: config.maskContent,
+      secrets: [config.apiKey],
+    });
+    const transport = config.transport ?? new HttpTransport({
+      fetch: config.fetch,
+      timeout: this.config.timeout,
+      maxRetries: this.config.maxRetries,
+      retry: config.retry,
+      rateLimiter: this.rateLimiter,
+      logger: this.logger,
+    });
+    this.transport = applyMiddleware(
+      withConcurrencyLimit(withCircuitBreaker(transport, this.circuitBreaker), this.concurrency),
+      config.middleware
+    );
   }
 
   // ============================================
@@ -182,11 +258,13 @@ export class MemoryController {
    * ```
    */
   async store(options: CreateOptions): Promise<Conversation> {
-    const { signal, ...bodyOptions } = options;
+    const { signal, idempotencyKey, priority, ...bodyOptions } = options;
     return this.request<Conversation>('/api/v1/conversations', {
       method: 'POST',
       body: JSON.stringify(bodyOptions),
       signal,
+      priority,
+      idempotencyKey: this.idempotencyKey(idempotencyKey),
     });
   }
 
@@ -203,10 +281,14 @@ export class MemoryController {
    * GET /api/v1/conversations/{id}
    * 
    * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
    * @returns Full conversation data
    */
-  async get(id: string): Promise<Conversation> {
-    return this.request<Conversation>(`/api/v1/conversations/${id}`);
+  async get(id: string, options: CallOptions = {}): Promise<Conversation> {
+    return this.request<Conversation>(`/api/v1/conversations/${id}`, {
+      signal: options.signal,
+      priority: options.priority,
+    });
   }
 
   /**
@@ -216,34 +298,156 @@ export class MemoryController {
     return this.get(id);
   }
 
+  /**
+   * Get a page of a conversation's messages, oldest first
+   * 
+   * GET /api/v1/conversations/{id}/messages
+   * 
+   * Controllers without that route are read through the MCP
+   * memory_export tool, paginated client-side.
+   * 
+   * @param id - Conversation UUID
+   * @param options - Pagination, priority and abort signal
+   * @returns Messages with the conversation's total message count
+   * 
+   * @example
+   * ```
+   * const page = await memory.getMessages(id, { limit: 50 });
+   * page.messages.forEach(m => console.log(`${m.role}: ${extractText(m.content)}`));
+   * ```
+   */
+  async getMessages(id: string, options: MessageListOptions = {}): Promise<MessagePage> {
+    const { limit = 100, offset = 0, signal, priority } = options;
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      throw new SekhaValidationError('Invalid limit', `limit must be a positive integer, got ${limit}`);
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new SekhaValidationError('Invalid offset', `offset must be a non-negative integer, got ${offset}`);
+    }
+
+    if (!this.messagesRouteMissing) {
+      try {
+        const page = await this.request<Partial<MessagePage>>(
+          `/api/v1/conversations/${id}/messages?limit=${limit}&offset=${offset}`,
+          { signal, priority }
+        );
+        const messages = page.messages ?? [];
+        return { conversation_id: id, messages, total: page.total ?? offset + messages.length, limit, offset };
+      } catch (error: unknown) {
+        if (!isMissingRoute(error)) {
+          throw error;
+        }
+      }
+    }
+
+    // A 404 may mean the conversation is missing; memory_export tells us which
+    const exported = await this.request<Record<string, unknown>>('/mcp/tools/memory_export', {
+      method: 'POST',
+      idempotent: true,
+      body: JSON.stringify({ conversation_id: id, format: 'json', include_metadata: true }),
+      signal,
+      priority,
+    });
+    const messages = messagesFromExport(exported);
+    this.messagesRouteMissing = true;
+
+    return {
+      conversation_id: id,
+      messages: messages.slice(offset, offset + limit),
+      total: messages.length,
+      limit,
+      offset,
+    };
+  }
+
+  /**
+   * Append messages to an existing conversation
+   * 
+   * POST /api/v1/conversations/{id}/messages
+   * 
+   * There is no MCP equivalent, so controllers without this route
+   * reject the call rather than creating a new conversation.
+   * 
+   * @param id - Conversation UUID
+   * @param messages - New turns, in order
+   * @param options - Idempotency key, priority and abort signal
+   * 
+   * @example
+   * ```
+   * await memory.appendMessages(conversationId, [
+   *   { role: 'user', content: 'And for staging?' },
+   *   { role: 'assistant', content: 'Use the same chart with staging values.' }
+   * ]);
+   * ```
+   */
+  async appendMessages(id: string, messages: Message[], options: MutationOptions = {}): Promise<void> {
+    if (!Array.isArray(messages) || messages.length === 0) {
+      throw new SekhaValidationError('No messages to append', 'messages must be a non-empty array');
+    }
+    const invalid = messages.findIndex(message =>
+      !message || !['user', 'assistant', 'system'].includes(message.role) ||
+      (typeof message.content !== 'string' && !Array.isArray(message.content))
+    );
+    if (invalid !== -1) {
+      throw new SekhaValidationError(
+        'Invalid message',
+        `messages[${invalid}] needs a role of user, assistant or system and string or content-part content`
+      );
+    }
+
+    await this.request<void>(`/api/v1/conversations/${id}/messages`, {
+      method: 'POST',
+      body: JSON.stringify({ messages }),
+      signal: options.signal,
+      priority: options.priority,
+      idempotencyKey: this.idempotencyKey(options.idempotencyKey),
+    });
+  }
+
   /**
    * List conversations with optional filters
    * 
    * GET /api/v1/conversations
    * 
-   * @param filter - Filter options (label, folder, status, pagination)
+   * @param filter - Filter options (label, folder, status, importance, dates, sorting, pagination)
+   * @param options - Queue priority and abort signal
    * @returns Array of conversations
+   * @throws SekhaValidationError for unsupported filter or sort fields, or labels containing commas
+   *
+   * @example
+   * ```
+   * const recent = await memory.list({
+   *   labels: ['Engineering', 'Design'],
+   *   importance_min: 7,
+   *   date_from: '2026-01-01',
+   *   sort: { field: 'updated_at', order: 'desc' }
+   * });
+   * ```
    */
-  async list(filter?: ListFilter): Promise<QueryResponse> {
+  async list(filter?: ListFilter, options: CallOptions = {}): Promise<QueryResponse> {
+    const { pinned, archived, page, page_size, limit, offset, sort, ...filters } =
+      validateFilters(filter ?? {}, LIST_FIELDS);
     const params = new URLSearchParams();
-    
-    if (filter?.label) params.append('label', filter.label);
-    if (filter?.folder) params.append('folder', filter.folder);
-    if (filter?.pinned !== undefined) params.append('pinned', String(filter.pinned));
-    if (filter?.archived !== undefined) params.append('archived', String(filter.archived));
-    
+
+    appendFilterParams(params, filters);
+    if (pinned !== undefined) params.append('pinned', String(pinned));
+    if (archived !== undefined) params.append('archived', String(archived));
+
     // Support both page/page_size and limit/offset
-    if (filter?.page) params.append('page', filter.page.toString());
-    if (filter?.page_size) params.append('page_size', filter.page_size.toString());
-    if (filter?.limit) params.append('limit', filter.limit.toString());
-    if (filter?.offset) params.append('offset', filter.offset.toString());
+    if (page) params.append('page', page.toString());
+    if (page_size) params.append('page_size', page_size.toString());
+    if (limit) params.append('limit', limit.toString());
+    if (offset) params.append('offset', offset.toString());
+
+    if (sort) appendSortParams(params, validateSort(sort));
 
     const queryString = params.toString();
     const url = queryString 
       ? `/api/v1/conversations?${queryString}` 
       : '/api/v1/conversations';
 
-    return this.request<QueryResponse>(url);
+    return this.request<QueryResponse>(url, { signal: options.signal, priority: options.priority });
   }
 
   /**
@@ -253,6 +457,35 @@ export class MemoryController {
     return this.list(filter);
   }
 
+  /**
+   * Iterate over every conversation matching a filter
+   *
+   * Pages through list() with limit/offset until a page comes back
+   * empty or `total` is reached.
+   *
+   * @param filter - Filter options (pagination is handled for you)
+   * @param options - Page size, item cap, priority and abort signal
+   *
+   * @example
+   * ```
+   * for await (const item of memory.listAll({ folder: '/work' }, { pageSize: 100 })) {
+   *   console.log(item.label);
+   * }
+   * ```
+   */
+  async *listAll(
+    filter: Omit<ListFilter, 'page' | 'page_size' | 'limit' | 'offset'> = {},
+    options: PaginateOptions = {}
+  ): AsyncGenerator<SearchResult, void, undefined> {
+    yield* paginate(async ({ offset, limit, signal }) => {
+      const response = await this.list(
+        { ...filter, limit, offset },
+        { signal, priority: options.priority }
+      );
+      return { items: response.results ?? [], total: response.total };
+    }, options);
+  }
+
   /**
    * Update conversation label and/or folder
    * 
@@ -261,11 +494,14 @@ export class MemoryController {
    * @param id - Conversation UUID
    * @param label - New label
    * @param folder - New folder
+   * @param options - Queue priority and abort signal
    */
-  async updateLabel(id: string, label: string, folder: string): Promise<void> {
+  async updateLabel(id: string, label: string, folder: string, options: CallOptions = {}): Promise<void> {
     await this.request<void>(`/api/v1/conversations/${id}/label`, {
       method: 'PUT',
       body: JSON.stringify({ label, folder }),
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
@@ -276,21 +512,26 @@ export class MemoryController {
    * 
    * @param id - Conversation UUID  
    * @param folder - New folder path
+   * @param options - Queue priority and abort signal
    */
-  async updateFolder(id: string, folder: string): Promise<void> {
+  async updateFolder(id: string, folder: string, options: CallOptions = {}): Promise<void> {
     await this.request<void>(`/api/v1/conversations/${id}/folder`, {
       method: 'PUT',
       body: JSON.stringify({ folder }),
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
   /**
    * Generic update for other conversation fields
    * 
-   * Note: Use specific methods (updateLabel, updateFolder, pin, archive) when available
+   * Note: Use specific methods (updateLabel, updateFolder, setImportance, setStatus) when available
    * 
    * @param id - Conversation UUID
    * @param updates - Fields to update
+   * @param options - Queue priority and abort signal
+   * @throws SekhaValidationError for fields that cannot be updated or invalid values
    */
   async update(
     id: string,
@@ -298,15 +539,40 @@ export class MemoryController {
       label?: string;
       folder?: string;
       importanceScore?: number;
-    }
+      status?: ConversationStatus;
+    },
+    options: CallOptions = {}
   ): Promise<void> {
+    const unsupported = Object.keys(updates).filter(key => !UPDATE_FIELDS.includes(key));
+    if (unsupported.length) {
+      throw new SekhaValidationError(
+        'Unsupported update fields',
+        `Cannot update ${unsupported.join(', ')}; supported fields are ${UPDATE_FIELDS.join(', ')}`
+      );
+    }
+    if (updates.importanceScore !== undefined) {
+      assertImportance(updates.importanceScore);
+    }
+    if (updates.status !== undefined) {
+      assertStatus(updates.status);
+    }
+
     // Use specific endpoints when available
     if (updates.label !== undefined && updates.folder !== undefined) {
-      await this.updateLabel(id, updates.label, updates.folder);
+      await this.updateLabel(id, updates.label, updates.folder, options);
     } else if (updates.folder !== undefined) {
-      await this.updateFolder(id, updates.folder);
+      await this.updateFolder(id, updates.folder, options);
+    } else if (updates.label !== undefined) {
+      // The label endpoint requires a folder; memory_update does not
+      await this.memoryUpdate(id, { label: updates.label }, options);
+    }
+
+    if (updates.importanceScore !== undefined) {
+      await this.setImportance(id, updates.importanceScore, options);
+    }
+    if (updates.status !== undefined) {
+      await this.setStatus(id, updates.status, options);
     }
-    // Note: importanceScore update would need additional endpoint
   }
 
   /**
@@ -315,10 +581,13 @@ export class MemoryController {
    * DELETE /api/v1/conversations/{id}
    * 
    * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
    */
-  async delete(id: string): Promise<void> {
+  async delete(id: string, options: CallOptions = {}): Promise<void> {
     await this.request<void>(`/api/v1/conversations/${id}`, {
       method: 'DELETE',
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
@@ -328,6 +597,7 @@ export class MemoryController {
    * GET /api/v1/conversations/count
    * 
    * @param params - Optional label or folder filter
+   * @param options - Queue priority and abort signal
    * @returns Count of matching conversations
    * 
    * @example
@@ -342,7 +612,7 @@ export class MemoryController {
    * const folderCount = await memory.count({ folder: '/work' });
    * ```
    */
-  async count(params?: { label?: string; folder?: string }): Promise<CountResponse> {
+  async count(params?: { label?: string; folder?: string }, options: CallOptions = {}): Promise<CountResponse> {
     const searchParams = new URLSearchParams();
     if (params?.label) searchParams.append('label', params.label);
     if (params?.folder) searchParams.append('folder', params.folder);
@@ -352,7 +622,7 @@ export class MemoryController {
       ? `/api/v1/conversations/count?${queryString}`
       : '/api/v1/conversations/count';
     
-    return this.request<CountResponse>(url);
+    return this.request<CountResponse>(url, { signal: options.signal, priority: options.priority });
   }
 
   // ============================================
@@ -364,15 +634,21 @@ export class MemoryController {
    * 
    * POST /api/v1/query (FIXED from /api/v1/search)
    * 
+   * With `maxPerConversation`, more results are fetched than
+   * requested, capped per conversation and cut back to `limit`;
+   * `offset` then counts diversified results.
+   *
    * @param query - Search query string
-   * @param options - Search options (limit, filters)
+   * @param options - Search options (limit, filters, labels, sorting, per-conversation cap)
    * @returns Query response with results and pagination
+   * @throws SekhaValidationError for unsupported filter or sort fields
    * 
    * @example
    * ```
    * const response = await memory.query('API design patterns', {
    *   limit: 10,
-   *   filters: { label: 'Engineering' }
+   *   filters: { label: 'Engineering' },
+   *   maxPerConversation: 2
    * });
    * 
    * response.results.forEach(result => {
@@ -381,20 +657,66 @@ export class MemoryController {
    * ```
    */
   async query(query: string, options?: SearchOptions): Promise<QueryResponse> {
+    const { maxPerConversation, ...searchOptions } = options ?? {};
+    if (maxPerConversation === undefined) {
+      return this.queryPage(query, searchOptions);
+    }
+
+    if (!Number.isInteger(maxPerConversation) || maxPerConversation < 1) {
+      throw new SekhaValidationError('Invalid search options', 'maxPerConversation must be a positive integer');
+    }
+
+    const limit = searchOptions.limit ?? 10;
+    const offset = searchOptions.offset ?? 0;
+    const wanted = offset + limit;
+    const pageSize = wanted * DIVERSITY_OVERFETCH;
+
+    const response = await this.queryPage(query, { ...searchOptions, limit: pageSize, offset: 0 });
+    let hits = response.results ?? [];
+    let ranked = diversify(hits, maxPerConversation);
+    let fetched = hits.length;
+
+    for (let page = 1; page < MAX_DIVERSITY_PAGES && ranked.length < wanted && fetched === page * pageSize; page++) {
+      const next = await this.queryPage(query, { ...searchOptions, limit: pageSize, offset: page * pageSize });
+      hits = [...hits, ...(next.results ?? [])];
+      fetched = hits.length;
+      ranked = diversify(hits, maxPerConversation);
+    }
+
+    return { ...response, results: ranked.slice(offset, wanted) };
+  }
+
+  /**
+   * One POST /api/v1/query request
+   */
+  private async queryPage(query: string, options: SearchOptions): Promise<QueryResponse> {
     const body: Record<string, unknown> = {
       query,
       limit: options?.limit ?? 10,
       offset: options?.offset ?? 0,
     };
 
-    if (options?.filters) {
-      body.filters = options.filters;
+    if (options?.labels !== undefined) {
+      validateFilters({ labels: options.labels });
+    }
+    const filters = compactFilters(validateFilters(options?.filters ?? {}), options?.labels);
+    if (filters) {
+      body.filters = filters;
+    }
+
+    if (options?.sort) {
+      const sort = validateSort(options.sort);
+      body.sort_by = sort.field;
+      body.sort_order = sort.order;
     }
 
     return this.request<QueryResponse>('/api/v1/query', {
       method: 'POST',
+      idempotent: true,
+      endpointClass: 'search',
       body: JSON.stringify(body),
       signal: options?.signal,
+      priority: options?.priority,
     });
   }
 
@@ -405,6 +727,76 @@ export class MemoryController {
     return this.query(query, options);
   }
 
+  /**
+   * Start a fluent semantic search
+   *
+   * Returns a QueryBuilder; awaiting it (or calling execute()) runs
+   * the query. Each await sends a new request.
+   *
+   * @param query - Search query string, or a saved QueryRequest
+   * @param options - Initial search options
+   *
+   * @example
+   * ```
+   * const response = await memory.searchBuilder('deployment')
+   *   .inFolder('/work')
+   *   .withLabels(['DevOps'])
+   *   .importanceAtLeast(6)
+   *   .since(new Date('2026-01-01'))
+   *   .limit(20);
+   * ```
+   */
+  searchBuilder(query: string | QueryRequest, options?: SearchOptions): QueryBuilder {
+    if (typeof query !== 'string') {
+      return QueryBuilder.fromJSON(this, query);
+    }
+
+    const { labels, filters, sort, limit, offset, priority, signal } = options ?? {};
+    const mergedLabels = Array.isArray(labels) && Array.isArray(filters?.labels)
+      ? [...filters.labels, ...labels]
+      : labels ?? filters?.labels;
+
+    return new QueryBuilder(
+      this,
+      {
+        query,
+        filters: mergedLabels === undefined ? filters : { ...filters, labels: mergedLabels },
+        sort,
+        limit,
+        offset,
+      },
+      { priority, signal }
+    );
+  }
+
+  /**
+   * Iterate over every semantic search result
+   *
+   * Pages through query() with limit/offset until a page comes back
+   * empty or `total` is reached.
+   *
+   * @param query - Search query string
+   * @param options - Search filters, page size, item cap, priority and abort signal
+   *
+   * @example
+   * ```
+   * for await (const result of memory.queryAll('API design', { maxItems: 200 })) {
+   *   console.log(result.score, result.content);
+   * }
+   * ```
+   */
+  async *queryAll(
+    query: string,
+    options: Omit<SearchOptions, 'limit' | 'offset'> & PaginateOptions = {}
+  ): AsyncGenerator<SearchResult, void, undefined> {
+    const { pageSize: _pageSize, maxItems: _maxItems, ...searchOptions } = options;
+
+    yield* paginate(async ({ offset, limit, signal }) => {
+      const response = await this.query(query, { ...searchOptions, limit, offset, signal });
+      return { items: response.results ?? [], total: response.total };
+    }, options);
+  }
+
   /**
    * Full-text search using SQLite FTS5
    * 
@@ -412,6 +804,7 @@ export class MemoryController {
    * 
    * @param query - Search query string
    * @param limit - Maximum results (default 50)
+   * @param options - Queue priority and abort signal
    * @returns Full-text search results
    * 
    * @example
@@ -422,7 +815,7 @@ export class MemoryController {
    * });
    * ```
    */
-  async searchFTS(query: string, limit?: number): Promise<FtsSearchResponse> {
+  async searchFTS(query: string, limit?: number, options: CallOptions = {}): Promise<FtsSearchResponse> {
     const body: FtsSearchRequest = {
       query,
       limit: limit ?? 50,
@@ -430,10 +823,85 @@ export class MemoryController {
 
     return this.request<FtsSearchResponse>('/api/v1/search/fts', {
       method: 'POST',
+      idempotent: true,
+      endpointClass: 'search',
       body: JSON.stringify(body),
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
+  /**
+   * Iterate over every full-text search match
+   *
+   * The FTS endpoint only takes a limit, so each page re-requests
+   * with a larger limit and yields the new tail.
+   *
+   * @param query - Search query string
+   * @param options - Page size, item cap, priority and abort signal
+   */
+  async *searchFTSAll(
+    query: string,
+    options: PaginateOptions = {}
+  ): AsyncGenerator<FtsMessage, void, undefined> {
+    yield* paginate(async ({ offset, limit, signal }) => {
+      const response = await this.searchFTS(query, offset + limit, { signal, priority: options.priority });
+      return { items: (response.results ?? []).slice(offset), total: response.total };
+    }, options);
+  }
+
+  /**
+   * Semantic and full-text search combined
+   *
+   * Runs query() and searchFTS() in parallel, merges the two ranked
+   * lists (reciprocal rank fusion by default) and removes duplicate
+   * messages. Finds exact identifiers that semantic search misses as
+   * well as paraphrases that FTS misses.
+   *
+   * @param query - Search query string
+   * @param options - Limit, fusion method and weights, semantic filters
+   * @returns Fused results, best first
+   *
+   * @example
+   * ```
+   * const { results } = await memory.hybridSearch('TICKET-4521 login timeout', {
+   *   limit: 10,
+   *   weights: { semantic: 1, fts: 2 }
+   * });
+   * results.forEach(r => console.log(r.sources.join('+'), r.score, r.content));
+   * ```
+   */
+  async hybridSearch(query: string, options: HybridSearchOptions = {}): Promise<HybridSearchResponse> {
+    const {
+      limit = 10,
+      candidates = limit * (options.maxPerConversation === undefined ? 2 : DIVERSITY_OVERFETCH),
+      fusion,
+      weights,
+      rrfK,
+      maxPerConversation,
+      filters,
+      labels,
+      signal,
+      priority,
+    } = options;
+
+    for (const [name, value] of [['limit', limit], ['candidates', candidates]] as const) {
+      if (!Number.isInteger(value) || value < 1) {
+        throw new SekhaValidationError('Invalid hybrid search option', `${name} must be a positive integer`);
+      }
+    }
+
+    const [semantic, fts] = await Promise.all([
+      // Capping the semantic leg too keeps `limit` results after diversify
+      this.query(query, { limit: candidates, filters, labels, maxPerConversation, signal, priority }),
+      this.searchFTS(query, candidates, { signal, priority }),
+    ]);
+
+    const fused = fuseResults(semantic.results ?? [], fts.results ?? [], { fusion, weights, rrfK });
+    const ranked = maxPerConversation === undefined ? fused : diversify(fused, maxPerConversation);
+    return { results: ranked.slice(0, limit), total: ranked.length };
+  }
+
   // ============================================
   // Advanced Memory Operations
   // ============================================
@@ -473,8 +941,11 @@ export class MemoryController {
 
     return this.request<ContextAssembly>('/api/v1/context/assemble', {
       method: 'POST',
+      idempotent: true,
+      endpointClass: 'search',
       body: JSON.stringify(body),
       signal: options.signal,
+      priority: options.priority,
     });
   }
 
@@ -485,6 +956,7 @@ export class MemoryController {
    * 
    * @param conversationId - Conversation UUID
    * @param level - Summary level (daily, weekly, monthly)
+   * @param options - Idempotency key, abort signal and priority
    * @returns Generated summary
    * 
    * @example
@@ -495,7 +967,8 @@ export class MemoryController {
    */
   async summarize(
     conversationId: string,
-    level: 'daily' | 'weekly' | 'monthly' = 'daily'
+    level: 'daily' | 'weekly' | 'monthly' = 'daily',
+    options: MutationOptions = {}
   ): Promise<SummaryResponse> {
     const body: SummarizeRequest = {
       conversation_id: conversationId,
@@ -505,26 +978,39 @@ export class MemoryController {
     return this.request<SummaryResponse>('/api/v1/summarize', {
       method: 'POST',
       body: JSON.stringify(body),
+      signal: options.signal,
+      priority: options.priority,
+      idempotencyKey: this.idempotencyKey(options.idempotencyKey),
     });
   }
 
   /**
    * Rebuild embeddings for all messages (async operation)
    * 
-   * POST /api/v1/rebuild-embeddings
+   * POST /api/v1/rebuild-embeddings, then
+   * GET /api/v1/rebuild-embeddings/status while polling. Without a
+   * status route, progress is estimated from `estimated_completion_seconds`
+   * and waitForCompletion() rejects, since completion cannot be verified.
    * 
-   * @returns Accepted (202) - operation runs in background
+   * @param options - Idempotency key, abort signal and priority (default: 'low')
+   * @returns Job handle for polling and waiting on the rebuild
    * 
    * @example
    * ```
-   * await memory.rebuildEmbeddings();
-   * console.log('Embedding rebuild started in background');
+   * const job = await memory.rebuildEmbeddings();
+   * job.onProgress(p => console.log(`${p.state} ${Math.round(p.progress * 100)}%`));
+   * await job.waitForCompletion({ timeout: 600_000 });
    * ```
    */
-  async rebuildEmbeddings(): Promise<void> {
-    await this.request<void>('/api/v1/rebuild-embeddings', {
+  async rebuildEmbeddings(options: MutationOptions = {}): Promise<EmbeddingJob> {
+    const accepted = await this.request<RebuildEmbeddingsResponse>('/api/v1/rebuild-embeddings', {
       method: 'POST',
+      signal: options.signal,
+      priority: options.priority ?? 'low',
+      idempotencyKey: this.idempotencyKey(options.idempotencyKey),
     });
+
+    return new EmbeddingJob(accepted, pollOptions => this.rebuildStatus(accepted.job_id, pollOptions));
   }
 
   // ============================================
@@ -537,10 +1023,13 @@ export class MemoryController {
    * PUT /api/v1/conversations/{id}/pin (FIXED from generic update)
    * 
    * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
    */
-  async pin(id: string): Promise<void> {
+  async pin(id: string, options: CallOptions = {}): Promise<void> {
     await this.request<void>(`/api/v1/conversations/${id}/pin`, {
       method: 'PUT',
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
@@ -550,108 +1039,753 @@ export class MemoryController {
    * PUT /api/v1/conversations/{id}/archive (FIXED from generic update)
    * 
    * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
    */
-  async archive(id: string): Promise<void> {
+  async archive(id: string, options: CallOptions = {}): Promise<void> {
     await this.request<void>(`/api/v1/conversations/${id}/archive`, {
       method: 'PUT',
+      signal: options.signal,
+      priority: options.priority,
     });
   }
 
-  // ============================================
-  // Pruning Operations
-  // ============================================
-
   /**
-   * Get pruning suggestions based on age and importance (dry run)
+   * Un-pin a conversation (status back to 'active')
    * 
-   * POST /api/v1/prune/dry-run (FIXED from /mcp/tools/memory_prune)
+   * GET /api/v1/conversations/{id}, then POST /mcp/tools/memory_update
+   * (no REST endpoint). Does nothing when the conversation is already
+   * active.
    * 
-   * @param thresholdDays - Age threshold in days
-   * @param importanceThreshold - Minimum importance score to keep (1-10)
-   * @returns Pruning suggestions
+   * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
+   * @throws SekhaValidationError if the conversation is archived
+   */
+  async unpin(id: string, options: CallOptions = {}): Promise<void> {
+    await this.clearStatus(id, 'pinned', options);
+  }
+
+  /**
+   * Un-archive a conversation (status back to 'active')
    * 
-   * @example
-   * ```
-   * const suggestions = await memory.getPruningSuggestions(60, 5.0);
+   * GET /api/v1/conversations/{id}, then POST /mcp/tools/memory_update
+   * (no REST endpoint). Does nothing when the conversation is already
+   * active.
    * 
-   * for (const suggestion of suggestions.suggestions) {
-   *   console.log(`Can prune: ${suggestion.conversation_label}`);
-   *   console.log(`  Recommendation: ${suggestion.recommendation}`);
-   *   console.log(`  Token savings: ${suggestion.token_estimate}`);
-   * }
-   * ```
+   * @param id - Conversation UUID
+   * @param options - Queue priority and abort signal
+   * @throws SekhaValidationError if the conversation is pinned
    */
-  async getPruningSuggestions(
-    thresholdDays: number = 30,
-    importanceThreshold: number = 5.0
-  ): Promise<PruneResponse> {
-    return this.request<PruneResponse>('/api/v1/prune/dry-run', {
-      method: 'POST',
-      body: JSON.stringify({
-        threshold_days: thresholdDays,
-        importance_threshold: importanceThreshold,
-      }),
-    });
+  async unarchive(id: string, options: CallOptions = {}): Promise<void> {
+    await this.clearStatus(id, 'archived', options);
   }
 
   /**
-   * Execute pruning (archive specified conversations)
+   * Set conversation status
    * 
-   * POST /api/v1/prune/execute
+   * Uses the pin/archive endpoints for 'pinned' and 'archived', and
+   * the MCP memory_update tool for 'active'.
    * 
-   * @param conversationIds - Array of conversation UUIDs to archive
+   * @param id - Conversation UUID
+   * @param status - New status
+   * @param options - Queue priority and abort signal
+   */
+  async setStatus(id: string, status: ConversationStatus, options: CallOptions = {}): Promise<void> {
+    assertStatus(status);
+
+    if (status === 'pinned') {
+      await this.pin(id, options);
+    } else if (status === 'archived') {
+      await this.archive(id, options);
+    } else {
+      await this.memoryUpdate(id, { status }, options);
+    }
+  }
+
+  /**
+   * Set a pinned or archived conversation back to 'active'
+   */
+  private async clearStatus(id: string, expected: ConversationStatus, options: CallOptions): Promise<void> {
+    const { status } = await this.get(id, options);
+    if (status === 'active') {
+      return;
+    }
+    if (status !== expected) {
+      throw new SekhaValidationError(
+        `Conversation is not ${expected}`,
+        `Conversation ${id} is ${status}; use ${status === 'pinned' ? 'unpin' : 'unarchive'}() instead`
+      );
+    }
+    await this.setStatus(id, 'active', options);
+  }
+
+  /**
+   * Set conversation importance score
    * 
-   * @example
-   * ```
-   * const suggestions = await memory.getPruningSuggestions(60, 5.0);
-   * const toArchive = suggestions.suggestions
-   *   .filter(s => s.recommendation === 'archive')
-   *   .map(s => s.conversation_id);
+   * POST /mcp/tools/memory_update (no REST endpoint)
    * 
-   * await memory.pruneExecute(toArchive);
-   * console.log(`Archived ${toArchive.length} conversations`);
-   * ```
+   * @param id - Conversation UUID
+   * @param importanceScore - New importance score (1-10)
+   * @param options - Queue priority and abort signal
+   * @throws SekhaValidationError if the score is outside 1-10
    */
-  async pruneExecute(conversationIds: string[]): Promise<void> {
-    const body: ExecutePruneRequest = {
-      conversation_ids: conversationIds,
-    };
-
-    await this.request<void>('/api/v1/prune/execute', {
-      method: 'POST',
-      body: JSON.stringify(body),
-    });
+  async setImportance(id: string, importanceScore: number, options: CallOptions = {}): Promise<void> {
+    assertImportance(importanceScore);
+    await this.memoryUpdate(id, { importance_score: importanceScore }, options);
   }
 
   // ============================================
-  // AI-Powered Operations
+  // Bulk Operations
   // ============================================
 
   /**
-   * Get AI-powered label suggestions for a conversation
-   * 
-   * POST /api/v1/labels/suggest
-   * 
-   * @param id - Conversation UUID
-   * @returns Label suggestions with confidence scores
-   * 
+   * Store many conversations
+   *
+   * Each conversation keeps its idempotency key (the caller's or a
+   * generated one) and failures are reported under that key, so they
+   * can be retried without creating duplicates. With idempotency keys
+   * disabled, failures are reported under their input index.
+   *
+   * @param conversations - Conversations to store
+   * @param options - Concurrency, priority and abort signal
+   * @returns Per-item outcome; `succeeded` holds the new conversation IDs
+   *
    * @example
    * ```
-   * const response = await memory.suggestLabels(conversationId);
-   * 
-   * response.suggestions.forEach(s => {
-   *   console.log(`${s.label} (confidence: ${s.confidence})`);
-   *   console.log(`  Reason: ${s.reason}`);
-   * });
+   * const result = await memory.bulkStore(conversations, { concurrency: 10 });
+   * console.log(`${result.success} stored, ${result.failed} failed`);
+   * result.errors?.forEach(e => console.warn(conversations[e.index!].label, e.error));
    * ```
    */
-  async suggestLabels(id: string): Promise<LabelSuggestResponse> {
-    return this.request<LabelSuggestResponse>('/api/v1/labels/suggest', {
-      method: 'POST',
-      body: JSON.stringify({ conversation_id: id }),
-    });
-  }
-
+  async bulkStore(conversations: CreateOptions[], options: BulkOptions = {}): Promise<BulkOperationResult> {
+    const keyed = conversations.map(conversation => ({
+      ...conversation,
+      idempotencyKey: this.idempotencyKey(conversation.idempotencyKey),
+    }));
+
+    return runBulk(
+      keyed,
+      (conversation, index) => conversation.idempotencyKey ?? String(index),
+      async conversation => {
+        const created = await this.store({
+          ...conversation,
+          signal: conversation.signal ?? options.signal,
+          priority: conversation.priority ?? options.priority,
+        });
+        return created.id;
+      },
+      options
+    );
+  }
+
+  /**
+   * Delete many conversations
+   *
+   * @param ids - Conversation UUIDs
+   * @param options - Concurrency, priority and abort signal
+   */
+  async bulkDelete(ids: string[], options: BulkOptions = {}): Promise<BulkOperationResult> {
+    return runBulk(ids, id => id, id => this.delete(id, options), options);
+  }
+
+  /**
+   * Pin many conversations
+   *
+   * @param ids - Conversation UUIDs
+   * @param options - Concurrency, priority and abort signal
+   */
+  async bulkPin(ids: string[], options: BulkOptions = {}): Promise<BulkOperationResult> {
+    return runBulk(ids, id => id, id => this.pin(id, options), options);
+  }
+
+  /**
+   * Archive many conversations
+   *
+   * @param ids - Conversation UUIDs
+   * @param options - Concurrency, priority and abort signal
+   */
+  async bulkArchive(ids: string[], options: BulkOptions = {}): Promise<BulkOperationResult> {
+    return runBulk(ids, id => id, id => this.archive(id, options), options);
+  }
+
+  /**
+   * Move many conversations to a folder
+   *
+   * @param ids - Conversation UUIDs
+   * @param folder - New folder path
+   * @param options - Concurrency, priority and abort signal
+   */
+  async bulkUpdateFolder(ids: string[], folder: string, options: BulkOptions = {}): Promise<BulkOperationResult> {
+    return runBulk(ids, id => id, id => this.updateFolder(id, folder, options), options);
+  }
+
+  /**
+   * Set label and folder on many conversations
+   *
+   * @param ids - Conversation UUIDs
+   * @param label - New label
+   * @param folder - New folder
+   * @param options - Concurrency, priority and abort signal
+   */
+  async bulkUpdateLabel(
+    ids: string[],
+    label: string,
+    folder: string,
+    options: BulkOptions = {}
+  ): Promise<BulkOperationResult> {
+    return runBulk(ids, id => id, id => this.updateLabel(id, label, folder, options), options);
+  }
+
+  // ============================================
+  // Folder Operations
+  // ============================================
+
+  /**
+   * List every folder that holds conversations
+   * 
+   * POST /mcp/tools/memory_stats (folders), falling back to a full
+   * listAll() scan when the controller does not report folders.
+   * 
+   * @param options - Queue priority and abort signal
+   * @returns Normalized folder paths, sorted
+   */
+  async listFolders(options: CallOptions = {}): Promise<string[]> {
+    return [...(await this.storedFolders(options)).keys()].sort();
+  }
+
+  /**
+   * Folders as stored on the controller, keyed by normalized path
+   *
+   * Stored paths may be unnormalized ("work/", "/work//eng"); requests
+   * filtering by folder must use the stored spelling.
+   */
+  private async storedFolders(options: CallOptions): Promise<Map<string, string[]>> {
+    const stats = await this.memoryStats(options);
+
+    let folders = stats.folders;
+    if (!folders) {
+      folders = [];
+      for await (const item of this.listAll({}, { ...options, pageSize: 100 })) {
+        folders.push(item.folder);
+      }
+    }
+
+    const stored = new Map<string, string[]>();
+    for (const folder of new Set(folders.filter(Boolean))) {
+      const path = normalizeStoredFolder(folder);
+      stored.set(path, [...(stored.get(path) ?? []), folder]);
+    }
+    return stored;
+  }
+
+  /**
+   * Folder tree with conversation counts
+   * 
+   * Counts come from count() per folder, with bounded concurrency.
+   * 
+   * @param options - Root folder, concurrency, priority and abort signal
+   * @returns Root node; `count` is per folder, `total` includes subfolders
+   * 
+   * @example
+   * ```
+   * const tree = await memory.getFolderTree({ root: '/work' });
+   * const print = (node: FolderNode, depth = 0) => {
+   *   console.log(`${'  '.repeat(depth)}${node.name || '/'} (${node.total})`);
+   *   node.children.forEach(child => print(child, depth + 1));
+   * };
+   * print(tree);
+   * ```
+   */
+  async getFolderTree(options: FolderTreeOptions = {}): Promise<FolderNode> {
+    const root = normalizeFolder(options.root ?? '/');
+    const folders = [...(await this.storedFolders(options))].filter(([folder]) => isWithinFolder(folder, root));
+
+    const counts = await mapConcurrent(folders, options.concurrency ?? 5, async ([folder, stored]) => {
+      let count = 0;
+      for (const name of stored) {
+        count += (await this.count({ folder: name }, options)).count;
+      }
+      return [folder, count] as const;
+    });
+
+    return buildFolderTree(new Map(counts), root);
+  }
+
+  /**
+   * Move or rename a folder and everything below it
+   * 
+   * Collects every affected conversation first, then moves each one
+   * with updateFolder(). A failed conversation does not stop the rest.
+   * 
+   * @param from - Folder to move
+   * @param to - New path for that folder
+   * @param options - Dry run, concurrency, priority and abort signal
+   * @returns The plan, plus per-conversation outcomes unless dry run
+   * 
+   * @example
+   * ```
+   * const plan = await memory.moveFolder('/work/old-team', '/archive/old-team', { dryRun: true });
+   * console.log(`${plan.conversations.length} conversations in ${plan.folders.length} folders`);
+   * ```
+   */
+  async moveFolder(from: string, to: string, options: FolderMoveOptions = {}): Promise<FolderMoveResult> {
+    const source = normalizeFolder(from);
+    const target = normalizeFolder(to);
+
+    if (source === '/') {
+      throw new SekhaValidationError('Invalid folder move', 'The root folder cannot be moved');
+    }
+    if (isWithinFolder(target, source)) {
+      throw new SekhaValidationError('Invalid folder move', `Cannot move "${source}" into itself ("${target}")`);
+    }
+
+    const stored = [...(await this.storedFolders(options))]
+      .filter(([folder]) => isWithinFolder(folder, source))
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    const folders = stored.map(([folder]) => ({ from: folder, to: rebaseFolder(folder, source, target) }));
+
+    // A conversation can appear under several listings (e.g. when the
+    // controller matches subfolders); each one is moved once, by its own folder
+    const conversations: FolderMoveResult['conversations'] = [];
+    const seen = new Set<string>();
+    for (const [folder, names] of stored) {
+      for (const name of names) {
+        for await (const item of this.listAll({ folder: name }, { ...options, pageSize: 100 })) {
+          const id = conversationIdOf(item);
+          const from = item.folder ? normalizeStoredFolder(item.folder) : folder;
+          if (!seen.has(id) && isWithinFolder(from, source)) {
+            seen.add(id);
+            conversations.push({ id, from, to: rebaseFolder(from, source, target) });
+          }
+        }
+      }
+    }
+
+    const plan: FolderMoveResult = { from: source, to: target, dryRun: !!options.dryRun, folders, conversations };
+    if (options.dryRun) {
+      return plan;
+    }
+
+    plan.result = await runBulk(
+      conversations,
+      move => move.id,
+      move => this.updateFolder(move.id, move.to, options),
+      options
+    );
+    return plan;
+  }
+
+  /**
+   * Delete an empty folder
+   * 
+   * Folders exist only as conversation paths, so an empty folder has
+   * nothing left to remove on the server; this verifies that it and
+   * its subfolders are empty and fails otherwise.
+   * 
+   * @param path - Folder to delete
+   * @param options - Queue priority and abort signal
+   * @throws SekhaValidationError if the folder still holds conversations
+   */
+  async deleteFolder(path: string, options: CallOptions = {}): Promise<void> {
+    const folder = normalizeFolder(path);
+    if (folder === '/') {
+      throw new SekhaValidationError('Invalid folder', 'The root folder cannot be deleted');
+    }
+
+    const tree = await this.getFolderTree({ ...options, root: folder });
+    if (tree.total > 0) {
+      throw new SekhaValidationError(
+        'Folder is not empty',
+        `"${folder}" still holds ${tree.total} conversation(s); move or delete them first`
+      );
+    }
+  }
+
+  // ============================================
+  // Label Operations
+  // ============================================
+
+  /**
+   * List every label with its conversation count
+   * 
+   * Labels come from POST /mcp/tools/memory_stats, falling back to a
+   * full listAll() scan; counts come from count() per label.
+   * 
+   * @param options - Concurrency, priority and abort signal
+   * @returns Labels, most used first
+   * 
+   * @example
+   * ```
+   * for (const { label, count } of await memory.listLabels()) {
+   *   console.log(`${label}: ${count}`);
+   * }
+   * ```
+   */
+  async listLabels(options: BulkOptions = {}): Promise<LabelCount[]> {
+    let labels = (await this.memoryStats(options)).labels;
+    if (!labels) {
+      labels = [];
+      for await (const item of this.listAll({}, { ...options, pageSize: 100 })) {
+        labels.push(item.label);
+      }
+    }
+
+    const unique = [...new Set(labels.filter(Boolean))];
+    const counts = await mapConcurrent(unique, options.concurrency ?? 5, async label => ({
+      label,
+      count: (await this.count({ label }, options)).count,
+    }));
+
+    return counts.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  }
+
+  /**
+   * Rename a label on every conversation that has it
+   * 
+   * @param from - Current label
+   * @param to - New label
+   * @param options - Dry run, concurrency, priority and abort signal
+   * @returns Per-conversation outcome and the conversations touched
+   * 
+   * @example
+   * ```
+   * const result = await memory.renameLabel('eng', 'Engineering');
+   * console.log(`${result.success} renamed, ${result.failed} failed`);
+   * ```
+   */
+  async renameLabel(from: string, to: string, options: LabelMergeOptions = {}): Promise<LabelMergeResult> {
+    return this.mergeLabels([from], to, options);
+  }
+
+  /**
+   * Merge several labels into one
+   * 
+   * Collects every conversation carrying one of `labels` first, then
+   * relabels each with updateLabel(), keeping its current folder.
+   * A failed conversation does not stop the rest.
+   * 
+   * @param labels - Labels to merge away
+   * @param target - Label they become
+   * @param options - Dry run, concurrency, priority and abort signal
+   * @returns Per-conversation outcome and the conversations touched
+   * 
+   * @example
+   * ```
+   * const plan = await memory.mergeLabels(['ml', 'ML', 'machine-learning'], 'Machine Learning', { dryRun: true });
+   * console.log(`${plan.conversations.length} conversations would be relabelled`);
+   * ```
+   */
+  async mergeLabels(labels: string[], target: string, options: LabelMergeOptions = {}): Promise<LabelMergeResult> {
+    if (!Array.isArray(labels) || labels.length === 0 || labels.some(label => typeof label !== 'string' || !label)) {
+      throw new SekhaValidationError('Invalid labels', 'Provide at least one non-empty label to merge');
+    }
+    if (typeof target !== 'string' || !target) {
+      throw new SekhaValidationError('Invalid label', 'Target label must be a non-empty string');
+    }
+
+    const sources = [...new Set(labels)].filter(label => label !== target);
+    const conversations: LabelMergeResult['conversations'] = [];
+    const seen = new Set<string>();
+    for (const label of sources) {
+      for await (const item of this.listAll({ label }, { ...options, pageSize: 100 })) {
+        const id = conversationIdOf(item);
+        if (!seen.has(id)) {
+          seen.add(id);
+          conversations.push({ id, from: label, folder: item.folder });
+        }
+      }
+    }
+
+    const plan = { from: sources, to: target, dryRun: !!options.dryRun, conversations };
+    if (options.dryRun) {
+      return { ...plan, success: 0, failed: 0, succeeded: [], errors: [] };
+    }
+
+    const result = await runBulk(
+      conversations,
+      conversation => conversation.id,
+      conversation => this.updateLabel(conversation.id, target, conversation.folder, options),
+      options
+    );
+    return { ...plan, ...result };
+  }
+
+  // ============================================
+  // Pruning Operations
+  // ============================================
+
+  /**
+   * Get pruning suggestions based on age and importance (dry run)
+   * 
+   * POST /api/v1/prune/dry-run (FIXED from /mcp/tools/memory_prune)
+   * 
+   * @param thresholdDays - Age threshold in days
+   * @param importanceThreshold - Minimum importance score to keep (1-10)
+   * @param options - Queue priority and abort signal
+   * @returns Pruning suggestions
+   * 
+   * @example
+   * ```
+   * const suggestions = await memory.getPruningSuggestions(60, 5.0);
+   * 
+   * for (const suggestion of suggestions.suggestions) {
+   *   console.log(`Can prune: ${suggestion.conversation_label}`);
+   *   console.log(`  Recommendation: ${suggestion.recommendation}`);
+   *   console.log(`  Token savings: ${suggestion.token_estimate}`);
+   * }
+   * ```
+   */
+  async getPruningSuggestions(
+    thresholdDays: number = 30,
+    importanceThreshold: number = 5.0,
+    options: CallOptions = {}
+  ): Promise<PruneResponse> {
+    return this.request<PruneResponse>('/api/v1/prune/dry-run', {
+      method: 'POST',
+      idempotent: true,
+      body: JSON.stringify({
+        threshold_days: thresholdDays,
+        importance_threshold: importanceThreshold,
+      }),
+      signal: options.signal,
+      priority: options.priority,
+    });
+  }
+
+  /**
+   * Execute pruning (archive specified conversations)
+   * 
+   * POST /api/v1/prune/execute
+   * 
+   * @param conversationIds - Array of conversation UUIDs to archive
+   * @param options - Idempotency key, abort signal and priority
+   * 
+   * @example
+   * ```
+   * const suggestions = await memory.getPruningSuggestions(60, 5.0);
+   * const toArchive = suggestions.suggestions
+   *   .filter(s => s.recommendation === 'archive')
+   *   .map(s => s.conversation_id);
+   * 
+   * await memory.pruneExecute(toArchive);
+   * console.log(`Archived ${toArchive.length} conversations`);
+   * ```
+   */
+  async pruneExecute(conversationIds: string[], options: MutationOptions = {}): Promise<void> {
+    const body: ExecutePruneRequest = {
+      conversation_ids: conversationIds,
+    };
+
+    await this.request<void>('/api/v1/prune/execute', {
+      method: 'POST',
+      body: JSON.stringify(body),
+      signal: options.signal,
+      priority: options.priority,
+      idempotencyKey: this.idempotencyKey(options.idempotencyKey),
+    });
+  }
+
+  // ============================================
+  // Retention Policies
+  // ============================================
+
+  /**
+   * Evaluate a retention policy into a reviewable plan
+   * 
+   * Candidates come from getPruningSuggestions(); folder rules also
+   * look up each candidate's folder with get(). A token budget covers
+   * every conversation, so `maxTokens` lists them all with listAll(),
+   * estimating tokens from word counts where the controller has no
+   * suggestion. The controller never suggests conversations at
+   * importance 10, so age rules always keep those. Nothing is changed.
+   * 
+   * @param policy - Policy object or JSON string
+   * @param options - Evaluation time, concurrency, priority and abort signal
+   * @returns Conversations to archive and keep, with the deciding rule
+   * @throws SekhaValidationError for an invalid policy
+   * 
+   * @example
+   * ```
+   * const plan = await memory.planRetention({ maxAgeDays: 90, keepLabels: ['Decisions'] });
+   * for (const decision of plan.archive) {
+   *   console.log(`${decision.label}: ${decision.reason}`);
+   * }
+   * ```
+   */
+  async planRetention(policy: RetentionPolicy | string, options: RetentionPlanOptions = {}): Promise<RetentionPlan> {
+    const parsed = parseRetentionPolicy(policy);
+    const suggestions = await this.getPruningSuggestions(
+      retentionThresholdDays(parsed),
+      // The highest score, so the controller holds back as little as it can
+      10,
+      options
+    );
+
+    if (parsed.maxTokens !== undefined) {
+      return evaluateRetention(parsed, await this.retentionCorpus(suggestions.suggestions, options), options.now);
+    }
+
+    const needsFolders = Object.keys(parsed.folderMaxAgeDays ?? {}).length > 0;
+    const candidates = await mapConcurrent(suggestions.suggestions, options.concurrency ?? 5, async suggestion => ({
+      conversationId: suggestion.conversation_id,
+      label: suggestion.conversation_label,
+      folder: needsFolders ? normalizeStoredFolder((await this.get(suggestion.conversation_id, options)).folder) : undefined,
+      lastAccessed: suggestion.last_accessed,
+      importance: suggestion.importance_score,
+      tokens: suggestion.token_estimate,
+    }));
+
+    return evaluateRetention(parsed, candidates, options.now);
+  }
+
+  /**
+   * Every unarchived conversation as a retention candidate
+   *
+   * Pruning suggestions supply token estimates and last access;
+   * the rest fall back to listing metadata.
+   */
+  private async retentionCorpus(
+    suggestions: PruningSuggestion[],
+    options: RetentionPlanOptions
+  ): Promise<RetentionCandidate[]> {
+    const suggested = new Map(suggestions.map(suggestion => [suggestion.conversation_id, suggestion]));
+    const candidates: RetentionCandidate[] = [];
+
+    for await (const item of this.listAll({}, { signal: options.signal, priority: options.priority, pageSize: 100 })) {
+      const listed = item as SearchResult & Partial<Conversation>;
+      const id = conversationIdOf(item);
+      const suggestion = suggested.get(id);
+      suggested.delete(id);
+      if (listed.status === 'archived') {
+        continue;
+      }
+
+      candidates.push({
+        conversationId: id,
+        label: suggestion?.conversation_label ?? listed.label,
+        folder: listed.folder ? normalizeStoredFolder(listed.folder) : undefined,
+        lastAccessed: suggestion?.last_accessed ?? listed.updated_at ?? listed.created_at ?? listed.timestamp,
+        importance: suggestion?.importance_score ?? listed.importance_score ?? 10,
+        tokens: suggestion?.token_estimate ?? estimateTokens(listed.word_count),
+        pinned: listed.status === 'pinned',
+      });
+    }
+
+    // Suggested but missing from the listing (e.g. created meanwhile)
+    for (const suggestion of suggested.values()) {
+      candidates.push({
+        conversationId: suggestion.conversation_id,
+        label: suggestion.conversation_label,
+        lastAccessed: suggestion.last_accessed,
+        importance: suggestion.importance_score,
+        tokens: suggestion.token_estimate,
+      });
+    }
+    return candidates;
+  }
+
+  /**
+   * Archive the conversations in a retention plan
+   * 
+   * Runs pruneExecute() in batches; a failed batch does not stop the
+   * rest. Every archived conversation gets an audit entry. Once the
+   * signal aborts no further batches are sent; their conversations
+   * are reported as skipped.
+   * 
+   * @param plan - Plan from planRetention()
+   * @param options - Batch size, audit callback, priority and abort signal
+   * @returns Per-conversation outcome and the audit log
+   * 
+   * @example
+   * ```
+   * const plan = await memory.planRetention(policy);
+   * const result = await memory.applyRetention(plan, {
+   *   batchSize: 100,
+   *   onAudit: entry => auditLog.write(JSON.stringify(entry) + '\n'),
+   * });
+   * console.log(`Archived ${result.success}, failed ${result.failed}`);
+   * ```
+   */
+  async applyRetention(plan: RetentionPlan, options: RetentionApplyOptions = {}): Promise<RetentionResult> {
+    const batchSize = options.batchSize ?? 50;
+    if (!Number.isInteger(batchSize) || batchSize < 1) {
+      throw new SekhaValidationError('Invalid batch size', 'batchSize must be a positive integer');
+    }
+
+    const succeeded: string[] = [];
+    const errors: NonNullable<RetentionResult['errors']> = [];
+    const audit: RetentionAuditEntry[] = [];
+    const skipped: string[] = [];
+
+    for (let start = 0; start < plan.archive.length; start += batchSize) {
+      if (options.signal?.aborted) {
+        skipped.push(...plan.archive.slice(start).map(decision => decision.conversationId));
+        break;
+      }
+
+      const batch = plan.archive.slice(start, start + batchSize);
+      const ids = batch.map(decision => decision.conversationId);
+
+      try {
+        await this.pruneExecute(ids, { signal: options.signal, priority: options.priority });
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : String(error);
+        batch.forEach((decision, offset) => {
+          errors.push({ id: decision.conversationId, error: message, index: start + offset });
+        });
+        continue;
+      }
+
+      const archivedAt = new Date().toISOString();
+      for (const decision of batch) {
+        const entry: RetentionAuditEntry = {
+          conversationId: decision.conversationId,
+          label: decision.label,
+          folder: decision.folder,
+          policy: plan.policy,
+          rule: decision.rule,
+          reason: decision.reason,
+          archivedAt,
+          batch: start / batchSize,
+        };
+        audit.push(entry);
+        options.onAudit?.(entry);
+      }
+      succeeded.push(...ids);
+    }
+
+    return { success: succeeded.length, failed: errors.length, succeeded, errors, audit, skipped };
+  }
+
+  // ============================================
+  // AI-Powered Operations
+  // ============================================
+
+  /**
+   * Get AI-powered label suggestions for a conversation
+   * 
+   * POST /api/v1/labels/suggest
+   * 
+   * @param id - Conversation UUID
+   * @returns Label suggestions with confidence scores
+   * 
+   * @example
+   * ```
+   * const response = await memory.suggestLabels(conversationId);
+   * 
+   * response.suggestions.forEach(s => {
+   *   console.log(`${s.label} (confidence: ${s.confidence})`);
+   *   console.log(`  Reason: ${s.reason}`);
+   * });
+   * ```
+   */
+  async suggestLabels(id: string): Promise<LabelSuggestResponse> {
+    return this.request<LabelSuggestResponse>('/api/v1/labels/suggest', {
+      method: 'POST',
+      idempotent: true,
+      body: JSON.stringify({ conversation_id: id }),
+    });
+  }
+
   /**
    * Auto-apply label if AI confidence exceeds threshold
    * 
@@ -697,6 +1831,9 @@ export class MemoryController {
    * ```
    */
   async export(options: ExportOptions = {}): Promise<Record<string, unknown>> {
+    // Exports are background work unless the caller says otherwise
+    const priority = options.priority ?? 'low';
+
     // If exporting single conversation, use conversation_id in body
     if (options.conversation_id) {
       const body: Record<string, unknown> = {
@@ -707,22 +1844,23 @@ export class MemoryController {
 
       return this.request<Record<string, unknown>>('/mcp/tools/memory_export', {
         method: 'POST',
+        idempotent: true,
         body: JSON.stringify(body),
+        signal: options.signal,
+        priority,
       });
     }
 
-    // Otherwise use query params for filtering
-    const params = new URLSearchParams();
-    if (options.label) params.append('label', options.label);
-    params.append('format', options.format || 'markdown');
-
-    return this.request<Record<string, unknown>>(`/api/v1/export?${params.toString()}`);
+    return this.request<Record<string, unknown>>(exportEndpoint(options), { signal: options.signal, priority });
   }
 
   /**
    * Export with streaming for large datasets
    * 
-   * @param options - Export options
+   * Reads the export response body as it arrives instead of buffering
+   * the whole export. Takes the same options as export().
+   * 
+   * @param options - Export options, priority and abort signal
    * @returns Async iterable of content chunks
    * 
    * @example
@@ -734,20 +1872,133 @@ export class MemoryController {
    * }
    * ```
    */
-  exportStream(options: ExportOptions = {}): AsyncIterable<string> {
-    const that = this;
+  async *exportStream(options: ExportOptions = {}): AsyncGenerator<string, void, undefined> {
+    const priority = options.priority ?? 'low';
+    const response = options.conversation_id
+      ? await this.send('/mcp/tools/memory_export', {
+        method: 'POST',
+        idempotent: true,
+        body: JSON.stringify({
+          conversation_id: options.conversation_id,
+          format: options.format ?? 'json',
+          include_metadata: options.include_metadata ?? true,
+        }),
+        signal: options.signal,
+        priority,
+      })
+      : await this.send(exportEndpoint(options), { signal: options.signal, priority });
+
+    yield* readBody(response, options.signal);
+  }
 
-    return {
-      [Symbol.asyncIterator]: async function* () {
-        const content = await that.export(options);
-        const contentStr = typeof content === 'string' ? content : JSON.stringify(content);
-        const chunkSize = 1024;
+  /**
+   * Export conversations one at a time, resumably
+   * 
+   * Lists conversations oldest first and exports each through
+   * POST /mcp/tools/memory_export, so only one conversation is held
+   * in memory. Pass the last `cursor` seen to resume after it.
+   * 
+   * @param options - Label filter, format, resume cursor, priority and abort signal
+   * @returns Async iterable of exported conversations
+   * @throws SekhaValidationError if `cursor` matches no conversation
+   * 
+   * @example
+   * ```
+   * for await (const exported of memory.exportConversations({ label: 'Work', cursor: saved })) {
+   *   await archive.put(exported.conversation_id, exported.data);
+   *   saved = exported.cursor;
+   * }
+   * ```
+   */
+  async *exportConversations(
+    options: ConversationExportOptions = {}
+  ): AsyncGenerator<ExportedConversation, void, undefined> {
+    const priority = options.priority ?? 'low';
+    let resumed = options.cursor === undefined;
+
+    const conversations = this.listAll(
+      { label: options.label, sort: { field: 'created_at', order: 'asc' } },
+      { signal: options.signal, priority, pageSize: options.pageSize ?? 100 }
+    );
 
-        for (let i = 0; i < contentStr.length; i += chunkSize) {
-          yield contentStr.slice(i, Math.min(i + chunkSize, contentStr.length));
+    for await (const item of conversations) {
+      const id = conversationIdOf(item);
+      if (!resumed) {
+        resumed = id === options.cursor;
+        continue;
+      }
+
+      const data = await this.export({
+        conversation_id: id,
+        format: options.format ?? 'json',
+        include_metadata: options.include_metadata,
+        signal: options.signal,
+        priority,
+      });
+      yield { conversation_id: id, cursor: id, data };
+    }
+
+    if (!resumed) {
+      throw new SekhaValidationError('Invalid export cursor', `No conversation "${options.cursor}" to resume after`);
+    }
+  }
+
+  /**
+   * Stream an export into a Node writable or a file
+   * 
+   * Waits for `drain` whenever the destination is full. Writables
+   * passed in are left open; files opened from a path are closed.
+   * With `byConversation` (or a `cursor`) one JSON line is written per
+   * conversation and resuming appends to an existing file.
+   * 
+   * @param destination - Writable stream or file path
+   * @param options - Export options, resume cursor and cursor callback
+   * @returns Characters and conversations written, and the last cursor
+   * @throws SekhaConnectionError if the file cannot be opened or a write fails
+   * 
+   * @example
+   * ```
+   * let cursor = await loadCheckpoint();
+   * await memory.exportTo('./backup.ndjson', {
+   *   byConversation: true,
+   *   cursor,
+   *   onCursor: next => saveCheckpoint(next),
+   * });
+   * ```
+   */
+  async exportTo(destination: WritableLike | string, options: ExportToOptions = {}): Promise<ExportWriteResult> {
+    const byConversation = options.byConversation || options.cursor !== undefined;
+    const owned = typeof destination === 'string'
+      ? await openFile(destination, options.cursor !== undefined)
+      : undefined;
+    const stream = owned ? owned.stream : destination as WritableLike;
+    const result: ExportWriteResult = { written: 0, conversations: 0 };
+
+    try {
+      if (!byConversation) {
+        for await (const chunk of this.exportStream(options)) {
+          await writeChunk(stream, chunk);
+          result.written += chunk.length;
         }
-      },
-    };
+      } else {
+        for await (const exported of this.exportConversations(options)) {
+          const line = `${JSON.stringify(exported.data)}\n`;
+          await writeChunk(stream, line);
+          result.written += line.length;
+          result.conversations++;
+          result.cursor = exported.cursor;
+          options.onCursor?.(exported.cursor);
+        }
+      }
+    } catch (error: unknown) {
+      // Report the original failure rather than the close after it
+      await owned?.close().catch(() => undefined);
+      throw error;
+    }
+
+    // Surfaces stream errors that happened after the last write
+    await owned?.close();
+    return result;
   }
 
   /**
@@ -800,158 +2051,252 @@ export class MemoryController {
   // ============================================
 
   /**
-   * Make HTTP request with retry logic and error handling
+   * Make HTTP request through the configured transport
    */
-  private async request<T>(
-    endpoint: string,
-    options: RequestInit & { retryCount?: number } = {}
-  ): Promise<T> {
-    const retryCount = options.retryCount || 0;
-
-    // Rate limiting
-    await this.rateLimiter.acquire();
-
-    // Build URL
-    const url = `${this.config.baseURL}${endpoint}`;
+  private async request<T>(endpoint: string, options: RequestOptions = {}): Promise<T> {
+    const request = this.buildRequest(endpoint, options);
+
+    return measureRequest(this.metrics, 'controller', endpoint, request, measured =>
+      traceRequest(this.tracer, 'controller', endpoint, measured, async (traced, span) => {
+        const response = await this.transport.send(traced);
+        const data = await readJSON<T>(response, this.logger);
+        recordResponse(span, response.status, data);
+
+        // store() returns the new conversation, identified by `id`
+        if (span && request.method === 'POST' && endpoint === '/api/v1/conversations') {
+          const id = (data as { id?: unknown }).id;
+          if (typeof id === 'string') {
+            span.setAttribute('sekha.conversation_id', id);
+          }
+        }
 
-    // Create abort controller with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout
+        return data;
+      })
     );
+  }
 
-    // Merge signals if user provided one
-    const signal = options.signal
-      ? this.mergeSignals([controller.signal, options.signal])
-      : controller.signal;
-
-    try {
-      const response = await fetch(url, {
-        ...options,
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.apiKey}`,
-          'User-Agent': 'Sekha-JS-SDK/1.0.0',
-          ...options.headers,
-        },
-        signal,
-      });
+  /**
+   * Send a request and return the response with its body unread
+   */
+  private async send(endpoint: string, options: RequestOptions = {}): Promise<Response> {
+    const request = this.buildRequest(endpoint, options);
+
+    // The span covers the request up to the response headers
+    return measureRequest(this.metrics, 'controller', endpoint, request, measured =>
+      traceRequest(this.tracer, 'controller', endpoint, measured, async (traced, span) => {
+        const response = await this.transport.send(traced);
+        span?.setAttribute('sekha.stream', true);
+        recordResponse(span, response.status, undefined);
+        return response;
+      })
+    );
+  }
 
-      clearTimeout(timeoutId);
+  private buildRequest(endpoint: string, options: RequestOptions): TransportRequest {
+    const method = options.method ?? 'GET';
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${this.config.apiKey}`,
+      'User-Agent': 'Sekha-JS-SDK/1.0.0',
+    };
 
-      if (!response.ok) {
-        await this.handleError(response);
-      }
+    // The same key is sent on every retry, so the server can deduplicate
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
 
-      // Handle 204 No Content
-      if (response.status === 204) {
-        return {} as T;
-      }
+    return {
+      method,
+      url: `${this.config.baseURL}${endpoint}`,
+      headers,
+      body: options.body,
+      signal: options.signal,
+      idempotent: options.idempotent ?? (options.idempotencyKey ? true : undefined),
+      endpointClass: options.endpointClass ?? (method === 'GET' || options.idempotent ? 'read' : 'write'),
+      priority: options.priority,
+    };
+  }
 
-      const text = await response.text();
-      return text ? JSON.parse(text) : ({} as T);
-      
-    } catch (error: unknown) {
-      clearTimeout(timeoutId);
+  /**
+   * Apply fields through the MCP memory_update tool
+   *
+   * @throws SekhaAPIError if the tool fails or reports a field as not updated
+   */
+  private async memoryUpdate(
+    id: string,
+    fields: { label?: string; status?: ConversationStatus; importance_score?: number },
+    options: CallOptions
+  ): Promise<void> {
+    const response = await this.request<{
+      success: boolean;
+      data?: { updated_fields?: string[] };
+      error?: string;
+    }>('/mcp/tools/memory_update', {
+      method: 'POST',
+      idempotent: true,
+      body: JSON.stringify({ conversation_id: id, ...fields }),
+      signal: options.signal,
+      priority: options.priority,
+    });
 
-      // Handle timeout
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new SekhaConnectionError(
-          `Request timed out after ${this.config.timeout}ms`
-        );
-      }
+    if (!response.success) {
+      throw new SekhaAPIError(
+        `MCP tool failed: ${response.error ?? 'memory_update was not applied'}`,
+        200,
+        JSON.stringify(response)
+      );
+    }
 
-      // Retry on network errors
-      if (
-        retryCount < this.config.maxRetries &&
-        this.isRetryableError(error)
-      ) {
-        await this.backoff.wait(retryCount);
-        return this.request<T>(endpoint, {
-          ...options,
-          retryCount: retryCount + 1,
-        });
-      }
+    const updated = response.data?.updated_fields;
+    const missing = updated ? Object.keys(fields).filter(field => !updated.includes(field)) : [];
+    if (missing.length) {
+      throw new SekhaAPIError(
+        `memory_update did not apply ${missing.join(', ')}`,
+        200,
+        JSON.stringify(response)
+      );
+    }
+  }
 
-      // Re-throw Sekha errors
-      if (error instanceof SekhaError) {
-        throw error;
+  /**
+   * Memory statistics from POST /mcp/tools/memory_stats
+   */
+  private async memoryStats(options: CallOptions = {}): Promise<MemoryStatsResponse> {
+    const stats = await this.request<{ success: boolean; data?: MemoryStatsResponse; error?: string }>(
+      '/mcp/tools/memory_stats',
+      {
+        method: 'POST',
+        idempotent: true,
+        body: JSON.stringify({}),
+        signal: options.signal,
+        priority: options.priority,
       }
+    );
 
-      // Wrap unknown errors
-      throw new SekhaConnectionError(`Request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    if (!stats.success || !stats.data) {
+      throw new SekhaAPIError(
+        `MCP tool failed: ${stats.error ?? 'memory_stats failed'}`,
+        200,
+        JSON.stringify(stats)
+      );
     }
+
+    return stats.data;
   }
 
   /**
-   * Handle HTTP error responses
+   * Rebuild job status, or undefined when the controller has no status route
    */
-  private async handleError(response: Response): Promise<never> {
-    let errorData: Record<string, unknown>;
-    
+  private async rebuildStatus(
+    jobId: string | undefined,
+    options: CallOptions
+  ): Promise<RebuildEmbeddingsStatusResponse | undefined> {
+    if (this.rebuildStatusRouteMissing) {
+      return undefined;
+    }
+
+    const query = jobId ? `?job_id=${encodeURIComponent(jobId)}` : '';
     try {
-      const text = await response.text();
-      errorData = text ? JSON.parse(text) : { error: 'Unknown error' };
-    } catch {
-      errorData = { error: 'Failed to parse error response' };
-    }
-
-    const message = String(errorData.error || errorData.message || 'Unknown error');
-
-    switch (response.status) {
-      case 400:
-        throw new SekhaValidationError(message, JSON.stringify(errorData));
-        
-      case 401:
-      case 403:
-        throw new SekhaAuthError('Authentication failed. Check your API key.');
-        
-      case 404:
-        throw new SekhaNotFoundError(message);
-        
-      case 429:
-        throw new SekhaAPIError(
-          'Rate limit exceeded. Please slow down.',
-          response.status,
-          JSON.stringify(errorData)
-        );
-        
-      default:
-        throw new SekhaAPIError(
-          message,
-          response.status,
-          JSON.stringify(errorData)
-        );
+      return await this.request<RebuildEmbeddingsStatusResponse>(`/api/v1/rebuild-embeddings/status${query}`, {
+        signal: options.signal,
+        priority: options.priority ?? 'low',
+      });
+    } catch (error: unknown) {
+      if (!isMissingRoute(error)) {
+        throw error;
+      }
+      this.rebuildStatusRouteMissing = true;
+      return undefined;
     }
   }
 
   /**
-   * Check if error is retryable (network errors, timeouts, 5xx)
+   * Resolve the idempotency key for a mutating call
    */
-  private isRetryableError(error: unknown): boolean {
-    if (error instanceof SekhaAuthError) return false;
-    if (error instanceof SekhaValidationError) return false;
-    if (error instanceof SekhaNotFoundError) return false;
-    
-    return true;
+  private idempotencyKey(key?: string): string | undefined {
+    if (key) return key;
+    return this.config.idempotencyKeys ? generateIdempotencyKey() : undefined;
   }
+}
 
-  /**
-   * Merge multiple AbortSignals
-   */
-  private mergeSignals(signals: AbortSignal[]): AbortSignal {
-    const controller = new AbortController();
+/**
+ * Conversation ID of a list() item (SearchResult or Conversation)
+ */
+function conversationIdOf(item: SearchResult | Conversation): string {
+  return 'conversation_id' in item ? item.conversation_id : item.id;
+}
 
-    for (const signal of signals) {
-      if (signal.aborted) {
-        controller.abort();
-        break;
-      }
-      signal.addEventListener('abort', () => controller.abort());
+/**
+ * REST export endpoint with label and format params
+ */
+function exportEndpoint(options: ExportOptions): string {
+  const params = new URLSearchParams();
+  if (options.label) params.append('label', options.label);
+  params.append('format', options.format || 'markdown');
+  return `/api/v1/export?${params.toString()}`;
+}
+
+/**
+ * Whether a failure means the controller has no such route
+ */
+function isMissingRoute(error: unknown): boolean {
+  return error instanceof SekhaNotFoundError ||
+    (error instanceof SekhaAPIError && (error.statusCode === 405 || error.statusCode === 501));
+}
+
+/**
+ * Messages from a memory_export response
+ *
+ * Accepts the messages at the top level, under `data`, under
+ * `data.conversation`, or as JSON text in `data.content`.
+ */
+function messagesFromExport(exported: Record<string, unknown>): Message[] {
+  if (exported.success === false) {
+    throw new SekhaAPIError(
+      `MCP tool failed: ${String(exported.error ?? 'memory_export failed')}`,
+      200,
+      JSON.stringify(exported)
+    );
+  }
+
+  const data = (exported.data ?? exported) as Record<string, unknown>;
+  let source: unknown = data;
+  if (typeof data.content === 'string') {
+    try {
+      source = JSON.parse(data.content);
+    } catch {
+      source = undefined;
     }
+  }
+
+  const record = source as Record<string, unknown> | undefined;
+  const conversation = record?.conversation as Record<string, unknown> | undefined;
+  const messages = record?.messages ?? conversation?.messages;
 
-    return controller.signal;
+  if (!Array.isArray(messages)) {
+    throw new SekhaAPIError('memory_export returned no messages', 200, JSON.stringify(exported));
+  }
+  return messages as Message[];
+}
+
+/**
+ * Reject importance scores outside 1-10
+ */
+function assertImportance(importanceScore: number): void {
+  if (typeof importanceScore !== 'number' || !(importanceScore >= 1 && importanceScore <= 10)) {
+    throw new SekhaValidationError('Invalid importance score', 'importanceScore must be between 1 and 10');
+  }
+}
+
+/**
+ * Reject unknown conversation statuses
+ */
+function assertStatus(status: string): void {
+  if (!isValidStatus(status)) {
+    throw new SekhaValidationError(
+      'Invalid status',
+      `status must be one of active, archived, pinned, got "${status}"`
+    );
   }
 }
 
@@ -0,0 +1,199 @@
+/**
+ * Concurrency limiting for Sekha clients
+ *
+ * Caps the number of in-flight requests per client. Requests over the
+ * limit wait in a priority queue, so interactive calls can go ahead of
+ * background work such as embedding rebuilds and exports.
+ *
+ * @module @sekha/sdk/concurrency
+ */
+
+import { SekhaAbortError, SekhaValidationError } from './errors';
+import { onBodyDone } from './transport';
+import type { Transport } from './transport';
+
+// ============================================
+// Concurrency Types
+// ============================================
+
+/**
+ * Queue priority of a request
+ */
+export type RequestPriority = 'high' | 'normal' | 'low';
+
+const PRIORITY_RANK: Record<RequestPriority, number> = {
+  high: 0,
+  normal: 1,
+  low: 2,
+};
+
+interface QueuedRequest {
+  rank: number;
+  start: () => void;
+}
+
+// ============================================
+// Concurrency Limiter
+// ============================================
+
+/**
+ * Priority queue that limits concurrent operations
+ *
+ * Requests of the same priority run in FIFO order.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryController({ baseURL, apiKey, maxConcurrency: 8 });
+ *
+ * // Background work queues behind interactive calls
+ * await Promise.all(batch.map(messages =>
+ *   memory.store({ messages, label: 'Import', priority: 'low' })
+ * ));
+ * ```
+ */
+export class ConcurrencyLimiter {
+  public readonly maxConcurrency: number;
+  private running = 0;
+  private readonly queue: QueuedRequest[] = [];
+
+  constructor(maxConcurrency: number) {
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency < 1) {
+      throw new SekhaValidationError('Invalid maxConcurrency', 'maxConcurrency must be a positive integer');
+    }
+    this.maxConcurrency = maxConcurrency;
+  }
+
+  /** Operations currently running */
+  get active(): number {
+    return this.running;
+  }
+
+  /** Operations waiting for a slot */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Run an operation once a slot is free
+   *
+   * @param operation - Work to run
+   * @param priority - Queue priority (default: 'normal')
+   * @param signal - Abort while still queued
+   */
+  async run<T>(
+    operation: () => Promise<T>,
+    priority: RequestPriority = 'normal',
+    signal?: AbortSignal
+  ): Promise<T> {
+    const release = await this.hold(priority, signal);
+
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Take a slot once one is free and keep it until released
+   *
+   * @param priority - Queue priority (default: 'normal')
+   * @param signal - Abort while still queued
+   * @returns Function that frees the slot; later calls do nothing
+   */
+  async hold(priority: RequestPriority = 'normal', signal?: AbortSignal): Promise<() => void> {
+    await this.acquire(PRIORITY_RANK[priority], signal);
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        this.release();
+      }
+    };
+  }
+
+  private acquire(rank: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new SekhaAbortError('Request aborted while queued'));
+    }
+
+    if (this.running < this.maxConcurrency) {
+      this.running++;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const entry: QueuedRequest = {
+        rank,
+        start: () => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve();
+        },
+      };
+
+      const onAbort = () => {
+        const index = this.queue.indexOf(entry);
+        if (index !== -1) {
+          this.queue.splice(index, 1);
+        }
+        reject(new SekhaAbortError('Request aborted while queued'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      // Insert after every entry of equal or higher priority
+      const index = this.queue.findIndex(queued => queued.rank > rank);
+      this.queue.splice(index === -1 ? this.queue.length : index, 0, entry);
+    });
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) {
+      // Hand the slot straight to the next request
+      next.start();
+      return;
+    }
+    this.running--;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Resolve a client's maxConcurrency option into a limiter instance
+ */
+export function toConcurrencyLimiter(
+  option: ConcurrencyLimiter | number | undefined
+): ConcurrencyLimiter | undefined {
+  if (option === undefined) {
+    return undefined;
+  }
+  return option instanceof ConcurrencyLimiter ? option : new ConcurrencyLimiter(option);
+}
+
+/**
+ * Wrap a transport so every call waits for a concurrency slot
+ *
+ * The slot stays taken until the response body has been read or
+ * cancelled, so streamed exports and completions count as in flight.
+ */
+export function withConcurrencyLimit(transport: Transport, limiter?: ConcurrencyLimiter): Transport {
+  if (!limiter) {
+    return transport;
+  }
+
+  return {
+    send: async request => {
+      const release = await limiter.hold(request.priority, request.signal);
+      try {
+        return onBodyDone(await transport.send(request), release);
+      } catch (error: unknown) {
+        release();
+        throw error;
+      }
+    },
+  };
+}
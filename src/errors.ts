@@ -1,20 +1,67 @@
+/**
+ * Request metadata and cause attached to every SekhaError
+ */
+export interface SekhaErrorOptions {
+  /** Underlying error that caused this one */
+  cause?: unknown;
+  /** Server request ID (X-Request-ID response header) */
+  requestId?: string;
+  /** HTTP method of the failed request */
+  method?: string;
+  /** URL of the failed request */
+  url?: string;
+}
+
 export class SekhaError extends Error {
-  constructor(message: string) {
+  public readonly cause?: unknown;
+  public readonly requestId?: string;
+  public readonly method?: string;
+  public readonly url?: string;
+
+  constructor(message: string, options: SekhaErrorOptions = {}) {
     super(message);
     this.name = 'SekhaError';
+    this.cause = options.cause;
+    this.requestId = options.requestId;
+    this.method = options.method;
+    this.url = options.url;
   }
 }
 
 export class SekhaConnectionError extends SekhaError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: SekhaErrorOptions) {
+    super(message, options);
     this.name = 'SekhaConnectionError';
   }
 }
 
+export class SekhaTimeoutError extends SekhaConnectionError {
+  /** Configured timeout that elapsed (ms) */
+  public readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number, options?: SekhaErrorOptions) {
+    super(message, options);
+    this.name = 'SekhaTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * The caller aborted the operation through its own signal
+ *
+ * Not a connection failure: retries, circuit breakers and alerting
+ * should ignore it.
+ */
+export class SekhaAbortError extends SekhaError {
+  constructor(message: string, options?: SekhaErrorOptions) {
+    super(message, options);
+    this.name = 'SekhaAbortError';
+  }
+}
+
 export class SekhaAuthError extends SekhaError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: SekhaErrorOptions) {
+    super(message, options);
     this.name = 'SekhaAuthError';
   }
 }
@@ -22,16 +69,16 @@ export class SekhaAuthError extends SekhaError {
 export class SekhaValidationError extends SekhaError {
   public readonly details: string;
 
-  constructor(message: string, details: string) {
-    super(message);
+  constructor(message: string, details: string, options?: SekhaErrorOptions) {
+    super(message, options);
     this.name = 'SekhaValidationError';
     this.details = details;
   }
 }
 
 export class SekhaNotFoundError extends SekhaError {
-  constructor(message: string) {
-    super(message);
+  constructor(message: string, options?: SekhaErrorOptions) {
+    super(message, options);
     this.name = 'SekhaNotFoundError';
   }
 }
@@ -40,10 +87,61 @@ export class SekhaAPIError extends SekhaError {
   public readonly statusCode: number;
   public readonly response: string;
 
-  constructor(message: string, statusCode: number, response: string) {
-    super(message);
+  constructor(message: string, statusCode: number, response: string, options?: SekhaErrorOptions) {
+    super(message, options);
     this.name = 'SekhaAPIError';
     this.statusCode = statusCode;
     this.response = response;
   }
 }
+
+/**
+ * Rate limit details parsed from response headers
+ */
+export interface RateLimitInfo {
+  /** Delay requested by the server before retrying (ms) */
+  retryAfterMs?: number;
+  /** Request quota for the current window (X-RateLimit-Limit) */
+  limit?: number;
+  /** Requests left in the current window (X-RateLimit-Remaining) */
+  remaining?: number;
+}
+
+export class SekhaRateLimitError extends SekhaAPIError {
+  public readonly retryAfterMs?: number;
+  public readonly limit?: number;
+  public readonly remaining?: number;
+
+  constructor(message: string, response: string, info: RateLimitInfo = {}, options?: SekhaErrorOptions) {
+    super(message, 429, response, options);
+    this.name = 'SekhaRateLimitError';
+    this.retryAfterMs = info.retryAfterMs;
+    this.limit = info.limit;
+    this.remaining = info.remaining;
+  }
+}
+
+export class SekhaServiceUnavailableError extends SekhaAPIError {
+  /** Delay requested by the server before retrying (ms) */
+  public readonly retryAfterMs?: number;
+
+  constructor(message: string, response: string, retryAfterMs?: number, options?: SekhaErrorOptions) {
+    super(message, 503, response, options);
+    this.name = 'SekhaServiceUnavailableError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SekhaCircuitOpenError extends SekhaError {
+  /** Name of the open circuit (e.g. 'controller', 'bridge') */
+  public readonly circuit: string;
+  /** Time until the circuit allows a trial request (ms) */
+  public readonly retryAfterMs: number;
+
+  constructor(message: string, circuit: string, retryAfterMs: number, options?: SekhaErrorOptions) {
+    super(message, options);
+    this.name = 'SekhaCircuitOpenError';
+    this.circuit = circuit;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
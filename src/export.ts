@@ -0,0 +1,179 @@
+/**
+ * Streaming export helpers
+ *
+ * Reads export responses incrementally and writes them to Node
+ * writables with backpressure, so large exports never sit in memory
+ * as a single string. File output loads `node:fs` lazily, keeping
+ * the SDK usable in browsers.
+ *
+ * @module @sekha/sdk/export
+ */
+
+import { SekhaAbortError, SekhaConnectionError } from './errors';
+
+/**
+ * Minimal writable stream (satisfied by Node's `stream.Writable`)
+ */
+export interface WritableLike {
+  /** Returns false when the internal buffer is full */
+  write(chunk: string): boolean;
+  once(event: 'drain' | 'error', listener: (error?: Error) => void): unknown;
+  removeListener(event: 'drain' | 'error', listener: (error?: Error) => void): unknown;
+  /** Set once the stream has failed (Node 18+) */
+  readonly errored?: Error | null;
+}
+
+/**
+ * Writable opened by the SDK, closed once the export finishes
+ */
+export interface OwnedWritable {
+  stream: WritableLike;
+  close(): Promise<void>;
+}
+
+/**
+ * Chunk size used when a response has no readable body stream
+ */
+const FALLBACK_CHUNK_SIZE = 1024;
+
+/**
+ * Decode a response body as it arrives
+ *
+ * Responses without a body stream (some fetch polyfills) are read
+ * whole and sliced into 1 KB chunks.
+ *
+ * @param response - Response with its body unread
+ * @param signal - Stops reading between chunks and cancels the body
+ * @throws SekhaAbortError if `signal` aborts
+ */
+export async function* readBody(response: Response, signal?: AbortSignal): AsyncGenerator<string, void, undefined> {
+  if (!response.body) {
+    const text = await response.text();
+    for (let i = 0; i < text.length; i += FALLBACK_CHUNK_SIZE) {
+      throwIfAborted(signal);
+      yield text.slice(i, i + FALLBACK_CHUNK_SIZE);
+    }
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let finished = false;
+
+  try {
+    for (;;) {
+      throwIfAborted(signal);
+
+      let result: ReadableStreamReadResult<Uint8Array>;
+      try {
+        result = await reader.read();
+      } catch (error: unknown) {
+        throwIfAborted(signal);
+        throw new SekhaConnectionError(`Export stream failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+
+      if (result.done) {
+        finished = true;
+        const tail = decoder.decode();
+        if (tail) {
+          yield tail;
+        }
+        return;
+      }
+
+      const text = decoder.decode(result.value, { stream: true });
+      if (text) {
+        yield text;
+      }
+    }
+  } finally {
+    // Stopped early: release the connection
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+  }
+}
+
+/**
+ * Write a chunk, waiting for `drain` when the destination is full
+ *
+ * @throws SekhaConnectionError once the destination has errored
+ */
+export async function writeChunk(destination: WritableLike, chunk: string): Promise<void> {
+  if (destination.errored) {
+    throw writeFailed(destination.errored);
+  }
+  if (destination.write(chunk)) {
+    return;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const onDrain = () => {
+      destination.removeListener('error', onError);
+      resolve();
+    };
+    const onError = (error?: Error) => {
+      destination.removeListener('drain', onDrain);
+      reject(writeFailed(error));
+    };
+    destination.once('drain', onDrain);
+    destination.once('error', onError);
+
+    // Failed before we started listening: neither event will come
+    if (destination.errored) {
+      onError(destination.errored);
+    }
+  });
+}
+
+/**
+ * Open a file for export output (Node only)
+ *
+ * Resolves once the file is open, so a bad path fails before any
+ * export data is requested. Later stream errors fail the next write
+ * and close().
+ *
+ * @param path - File to write
+ * @param append - Append instead of truncating (used when resuming)
+ * @throws SekhaConnectionError if the file cannot be opened
+ */
+export async function openFile(path: string, append: boolean): Promise<OwnedWritable> {
+  const { createWriteStream } = await import('node:fs');
+  const stream = createWriteStream(path, { flags: append ? 'a' : 'w', encoding: 'utf8' });
+
+  // Keeps stream errors from going unhandled; writeChunk() reads `errored`
+  let failure: Error | undefined;
+  stream.on('error', error => {
+    failure ??= error;
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    stream.once('open', () => resolve());
+    stream.once('error', error => reject(
+      new SekhaConnectionError(`Export file could not be opened: ${error.message}`, { cause: error })
+    ));
+  });
+
+  return {
+    stream,
+    close: () => new Promise<void>((resolve, reject) => {
+      const error = failure ?? stream.errored;
+      if (error) {
+        reject(writeFailed(error));
+        return;
+      }
+      stream.once('error', error => reject(writeFailed(error)));
+      stream.end(() => resolve());
+    }),
+  };
+}
+
+function writeFailed(error?: Error): SekhaConnectionError {
+  return new SekhaConnectionError(`Export write failed: ${error?.message ?? 'Unknown error'}`, { cause: error });
+}
+
+function throwIfAborted(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new SekhaAbortError('Export aborted');
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * Filter and sort validation for Sekha list and search calls
+ *
+ * Checks FilterParams and SortParams against what the controller
+ * supports and serializes them to query parameters or a request
+ * body. Unknown fields are rejected instead of silently ignored.
+ *
+ * @module @sekha/sdk/filters
+ */
+
+import { SekhaValidationError } from './errors';
+import type { ConversationStatus, FilterParams, SortParams } from './types';
+
+// ============================================
+// Supported Fields
+// ============================================
+
+/** Filter fields the controller understands */
+export const FILTER_FIELDS: ReadonlyArray<keyof FilterParams> = [
+  'label',
+  'labels',
+  'folder',
+  'status',
+  'importance_min',
+  'importance_max',
+  'date_from',
+  'date_to',
+];
+
+/** Fields conversations can be sorted by */
+export const SORT_FIELDS: ReadonlyArray<SortParams['field']> = [
+  'created_at',
+  'updated_at',
+  'importance_score',
+  'message_count',
+];
+
+const STATUSES: ReadonlyArray<ConversationStatus> = ['active', 'archived', 'pinned'];
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate filters, rejecting unknown fields and bad values
+ *
+ * @param filters - Filters to check
+ * @param extraFields - Additional fields allowed in this context (e.g. list pagination)
+ * @returns The same filters, typed
+ * @throws SekhaValidationError on the first unsupported field or invalid value
+ */
+export function validateFilters<T extends FilterParams>(
+  filters: T,
+  extraFields: readonly string[] = []
+): T {
+  const record = filters as Record<string, unknown>;
+
+  for (const key of Object.keys(record)) {
+    if (!(FILTER_FIELDS as readonly string[]).includes(key) && !extraFields.includes(key)) {
+      throw new SekhaValidationError(
+        'Unsupported filter field',
+        `"${key}" is not supported; use one of ${[...FILTER_FIELDS, ...extraFields].join(', ')}`
+      );
+    }
+  }
+
+  for (const key of ['label', 'folder'] as const) {
+    if (filters[key] !== undefined && typeof filters[key] !== 'string') {
+      throw new SekhaValidationError('Invalid filter value', `${key} must be a string`);
+    }
+  }
+
+  if (filters.labels !== undefined &&
+      (!Array.isArray(filters.labels) || filters.labels.some(label => typeof label !== 'string'))) {
+    throw new SekhaValidationError('Invalid filter value', 'labels must be an array of strings');
+  }
+
+  if (filters.status !== undefined && !STATUSES.includes(filters.status)) {
+    throw new SekhaValidationError(
+      'Invalid filter value',
+      `status must be one of ${STATUSES.join(', ')}, got "${filters.status}"`
+    );
+  }
+
+  for (const key of ['importance_min', 'importance_max'] as const) {
+    const value = filters[key];
+    if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+      throw new SekhaValidationError('Invalid filter value', `${key} must be a finite number`);
+    }
+  }
+  if (filters.importance_min !== undefined && filters.importance_max !== undefined &&
+      filters.importance_min > filters.importance_max) {
+    throw new SekhaValidationError('Invalid filter value', 'importance_min must not exceed importance_max');
+  }
+
+  for (const key of ['date_from', 'date_to'] as const) {
+    const value = filters[key];
+    if (value !== undefined && (typeof value !== 'string' || Number.isNaN(Date.parse(value)))) {
+      throw new SekhaValidationError('Invalid filter value', `${key} must be an ISO 8601 date, got "${value}"`);
+    }
+  }
+  if (filters.date_from !== undefined && filters.date_to !== undefined &&
+      Date.parse(filters.date_from) > Date.parse(filters.date_to)) {
+    throw new SekhaValidationError('Invalid filter value', 'date_from must not be after date_to');
+  }
+
+  return filters;
+}
+
+/**
+ * Validate sort parameters
+ *
+ * @throws SekhaValidationError for unknown fields or orders
+ */
+export function validateSort(sort: SortParams): SortParams {
+  if (!SORT_FIELDS.includes(sort.field)) {
+    throw new SekhaValidationError(
+      'Unsupported sort field',
+      `"${sort.field}" is not supported; use one of ${SORT_FIELDS.join(', ')}`
+    );
+  }
+  if (sort.order !== 'asc' && sort.order !== 'desc') {
+    throw new SekhaValidationError('Invalid sort order', `order must be "asc" or "desc", got "${sort.order}"`);
+  }
+  return sort;
+}
+
+// ============================================
+// Serialization
+// ============================================
+
+/**
+ * Append filters to URL query parameters
+ *
+ * `labels` is sent comma-separated.
+ *
+ * @throws SekhaValidationError if one of `labels` contains a comma
+ */
+export function appendFilterParams(params: URLSearchParams, filters: FilterParams): void {
+  const ambiguous = filters.labels?.find(label => label.includes(','));
+  if (ambiguous !== undefined) {
+    throw new SekhaValidationError(
+      'Invalid filter value',
+      `labels are sent comma-separated, so "${ambiguous}" cannot be listed; use label for a single label with commas`
+    );
+  }
+
+  if (filters.label) params.append('label', filters.label);
+  if (filters.labels?.length) params.append('labels', filters.labels.join(','));
+  if (filters.folder) params.append('folder', filters.folder);
+  if (filters.status) params.append('status', filters.status);
+  if (filters.importance_min !== undefined) params.append('importance_min', String(filters.importance_min));
+  if (filters.importance_max !== undefined) params.append('importance_max', String(filters.importance_max));
+  if (filters.date_from) params.append('date_from', filters.date_from);
+  if (filters.date_to) params.append('date_to', filters.date_to);
+}
+
+/**
+ * Append sorting to URL query parameters
+ */
+export function appendSortParams(params: URLSearchParams, sort: SortParams): void {
+  params.append('sort_by', sort.field);
+  params.append('sort_order', sort.order);
+}
+
+/**
+ * Drop undefined fields and merge extra labels into `labels`
+ *
+ * @returns Filters for a request body, or undefined when empty
+ */
+export function compactFilters(filters: FilterParams = {}, labels: string[] = []): FilterParams | undefined {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  const merged = [...new Set([...(filters.labels ?? []), ...labels])];
+  if (merged.length) {
+    result.labels = merged;
+  }
+
+  return Object.keys(result).length ? result as FilterParams : undefined;
+}
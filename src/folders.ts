@@ -0,0 +1,101 @@
+/**
+ * Folder path helpers
+ *
+ * Folders are the `/`-separated `folder` paths on conversations.
+ * These helpers normalize paths, test subtree membership, rebase
+ * paths onto a new root and build a counted folder tree.
+ *
+ * @module @sekha/sdk/folders
+ */
+
+import { SekhaValidationError } from './errors';
+import type { FolderNode } from './types';
+
+/**
+ * Normalize a folder path: leading `/`, no duplicate or trailing `/`
+ *
+ * @throws SekhaValidationError for empty or relative paths
+ */
+export function normalizeFolder(path: string): string {
+  if (typeof path !== 'string' || !path.startsWith('/')) {
+    throw new SekhaValidationError('Invalid folder', `Folder paths must start with "/", got "${path}"`);
+  }
+  const normalized = path.replace(/\/{2,}/g, '/').replace(/\/+$/, '');
+  return normalized || '/';
+}
+
+/**
+ * Normalize a folder path reported by the controller
+ *
+ * Unlike normalizeFolder() this never throws: stored paths predate
+ * validation, so relative paths are read from the root.
+ */
+export function normalizeStoredFolder(path: string): string {
+  return normalizeFolder(`/${path}`);
+}
+
+/**
+ * Whether a folder is `root` or below it
+ */
+export function isWithinFolder(path: string, root: string): boolean {
+  return root === '/' || path === root || path.startsWith(`${root}/`);
+}
+
+/**
+ * Move a path from under `from` to under `to`
+ */
+export function rebaseFolder(path: string, from: string, to: string): string {
+  return normalizeFolder(`${to}/${path.slice(from.length)}`);
+}
+
+/**
+ * Build a folder tree from per-folder conversation counts
+ *
+ * Intermediate folders without conversations of their own are
+ * included with a count of zero; children are sorted by name.
+ *
+ * @param counts - Direct conversation count per folder path
+ * @param root - Folder at the top of the tree (default: '/')
+ */
+export function buildFolderTree(counts: Map<string, number>, root = '/'): FolderNode {
+  const top = createNode(root);
+  const nodes = new Map<string, FolderNode>([[root, top]]);
+
+  const nodeFor = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) {
+      return existing;
+    }
+
+    const node = createNode(path);
+    nodes.set(path, node);
+    // Below the root, so the parent is the root or also below it
+    nodeFor(path.slice(0, path.lastIndexOf('/')) || '/').children.push(node);
+    return node;
+  };
+
+  for (const [path, count] of counts) {
+    if (isWithinFolder(path, root)) {
+      nodeFor(path).count += count;
+    }
+  }
+
+  const finish = (node: FolderNode): number => {
+    node.children.sort((a, b) => a.name.localeCompare(b.name));
+    node.total = node.count + node.children.reduce((sum, child) => sum + finish(child), 0);
+    return node.total;
+  };
+  finish(top);
+
+  return top;
+}
+
+function createNode(path: string): FolderNode {
+  return {
+    path,
+    name: path === '/' ? '' : path.slice(path.lastIndexOf('/') + 1),
+    count: 0,
+    total: 0,
+    children: [],
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * Conversation-level views of search results
+ *
+ * Search endpoints return individual messages, so one long
+ * conversation can fill a whole page. These helpers group hits by
+ * conversation or cap the hits per conversation.
+ *
+ * @module @sekha/sdk/grouping
+ */
+
+import { SekhaValidationError } from './errors';
+
+// ============================================
+// Grouping Types
+// ============================================
+
+/**
+ * Minimal shape of a groupable hit (SearchResult, HybridSearchResult)
+ */
+export interface ScoredHit {
+  conversation_id: string;
+  score: number;
+  label?: string;
+  folder?: string;
+}
+
+/**
+ * Grouping options
+ */
+export interface GroupOptions {
+  /** How hit scores combine into the group score (default: 'max') */
+  aggregate?: 'max' | 'mean';
+  /** Best-matching hits kept per group (default: 3) */
+  snippets?: number;
+}
+
+/**
+ * Hits from one conversation
+ */
+export interface ConversationGroup<T extends ScoredHit> {
+  conversation_id: string;
+  label?: string;
+  folder?: string;
+  /** Aggregate of all hit scores */
+  score: number;
+  /** Number of hits in this conversation */
+  hits: number;
+  /** Best-matching hits, highest score first */
+  snippets: T[];
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Group hits by conversation, best group first
+ *
+ * @example
+ * ```typescript
+ * const { results } = await memory.query('rate limits', { limit: 50 });
+ * for (const group of groupByConversation(results, { aggregate: 'mean', snippets: 2 })) {
+ *   console.log(group.label, group.score, group.snippets.map(s => s.content));
+ * }
+ * ```
+ */
+export function groupByConversation<T extends ScoredHit>(
+  results: T[],
+  options: GroupOptions = {}
+): ConversationGroup<T>[] {
+  const aggregate = options.aggregate ?? 'max';
+  const snippets = options.snippets ?? 3;
+
+  if (aggregate !== 'max' && aggregate !== 'mean') {
+    throw new SekhaValidationError('Invalid aggregate', `aggregate must be "max" or "mean", got "${aggregate}"`);
+  }
+  assertCount('snippets', snippets, 0);
+
+  const groups = new Map<string, T[]>();
+  for (const result of results) {
+    const hits = groups.get(result.conversation_id);
+    if (hits) {
+      hits.push(result);
+    } else {
+      groups.set(result.conversation_id, [result]);
+    }
+  }
+
+  return [...groups.entries()]
+    .map(([conversationId, hits]) => {
+      const ranked = [...hits].sort((a, b) => b.score - a.score);
+      const total = hits.reduce((sum, hit) => sum + hit.score, 0);
+
+      return {
+        conversation_id: conversationId,
+        label: hits.find(hit => hit.label !== undefined)?.label,
+        folder: hits.find(hit => hit.folder !== undefined)?.folder,
+        score: aggregate === 'max' ? ranked[0].score : total / hits.length,
+        hits: hits.length,
+        snippets: ranked.slice(0, snippets),
+      };
+    })
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Keep at most `maxPerConversation` hits per conversation
+ *
+ * Order is preserved, so a ranked list stays ranked with more
+ * conversations represented near the top.
+ */
+export function diversify<T extends ScoredHit>(results: T[], maxPerConversation = 2): T[] {
+  assertCount('maxPerConversation', maxPerConversation, 1);
+
+  const counts = new Map<string, number>();
+  return results.filter(result => {
+    const count = counts.get(result.conversation_id) ?? 0;
+    counts.set(result.conversation_id, count + 1);
+    return count < maxPerConversation;
+  });
+}
+
+function assertCount(name: string, value: number, min: number): void {
+  if (!Number.isInteger(value) || value < min) {
+    throw new SekhaValidationError('Invalid grouping option', `${name} must be an integer of at least ${min}`);
+  }
+}
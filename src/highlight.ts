@@ -0,0 +1,258 @@
+/**
+ * Search result highlighting
+ *
+ * Builds short snippets around query-term matches in message text,
+ * with markers around each match, as plain text and as HTML-safe
+ * markup. Multi-modal content is reduced to its text first.
+ *
+ * @module @sekha/sdk/highlight
+ */
+
+import { SekhaValidationError } from './errors';
+import { extractText, MessageContent } from './types';
+
+// ============================================
+// Highlight Types
+// ============================================
+
+/**
+ * Markers placed around each match
+ */
+export interface HighlightMarkers {
+  pre: string;
+  post: string;
+}
+
+/**
+ * Highlighting options
+ */
+export interface HighlightOptions {
+  /** Characters of context kept on each side of a match (default: 60) */
+  window?: number;
+  /** Maximum snippets returned (default: 3) */
+  maxSnippets?: number;
+  /** Markers for plain-text output (default: `**` ... `**`) */
+  markers?: HighlightMarkers;
+  /** Markers for HTML output, inserted unescaped (default: `<mark>` ... `</mark>`) */
+  htmlMarkers?: HighlightMarkers;
+  /** Placed where a snippet cuts the text (default: '…') */
+  ellipsis?: string;
+  /** Match case exactly (default: false) */
+  caseSensitive?: boolean;
+}
+
+/**
+ * One snippet of highlighted text
+ */
+export interface Snippet {
+  /** Plain text with markers */
+  text: string;
+  /** HTML-escaped text with HTML markers */
+  html: string;
+  /** Offset of the snippet in the full text */
+  start: number;
+  /** End offset (exclusive) of the snippet in the full text */
+  end: number;
+  /** Matches inside this snippet */
+  matches: number;
+}
+
+/**
+ * Highlighting result
+ */
+export interface HighlightResult {
+  snippets: Snippet[];
+  /** Snippets joined into one plain-text string */
+  text: string;
+  /** Snippets joined into one HTML string */
+  html: string;
+  /** Whether any query term was found */
+  matched: boolean;
+}
+
+const DEFAULT_MARKERS: HighlightMarkers = { pre: '**', post: '**' };
+const DEFAULT_HTML_MARKERS: HighlightMarkers = { pre: '<mark>', post: '</mark>' };
+
+// ============================================
+// Highlighting
+// ============================================
+
+/**
+ * Highlight query terms in message content
+ *
+ * Terms are the whitespace-separated words of the query and match
+ * anywhere in a word, so "deploy" also marks "deployment". Without a
+ * match, the start of the text is returned unmarked.
+ *
+ * @example
+ * ```typescript
+ * const { results } = await memory.query('kubernetes rollout');
+ * const { html } = highlight(results[0].content, 'kubernetes rollout', { window: 40 });
+ * element.innerHTML = html; // safe: content is escaped
+ * ```
+ */
+export function highlight(
+  content: MessageContent,
+  query: string,
+  options: HighlightOptions = {}
+): HighlightResult {
+  const window = options.window ?? 60;
+  const maxSnippets = options.maxSnippets ?? 3;
+  const markers = options.markers ?? DEFAULT_MARKERS;
+  const htmlMarkers = options.htmlMarkers ?? DEFAULT_HTML_MARKERS;
+  const ellipsis = options.ellipsis ?? '…';
+
+  for (const [name, value, min] of [['window', window, 0], ['maxSnippets', maxSnippets, 1]] as const) {
+    if (!Number.isInteger(value) || value < min) {
+      throw new SekhaValidationError('Invalid highlight option', `${name} must be an integer of at least ${min}`);
+    }
+  }
+
+  const text = extractText(content);
+  const matches = findMatches(text, query, options.caseSensitive ?? false);
+
+  const ranges = matches.length
+    ? mergeWindows(text, matches, window).slice(0, maxSnippets)
+    : [{ start: 0, end: snapEnd(text, Math.min(text.length, window * 2), 0) }];
+
+  const snippets = ranges.map(({ start, end }) => {
+    const inside = matches.filter(match => match.start >= start && match.end <= end);
+    const before = start > 0 ? ellipsis : '';
+    const after = end < text.length ? ellipsis : '';
+
+    return {
+      text: before + render(text, start, end, inside, markers, segment => segment) + after,
+      html: escapeHtml(before) + render(text, start, end, inside, htmlMarkers, escapeHtml) + escapeHtml(after),
+      start,
+      end,
+      matches: inside.length,
+    };
+  });
+
+  return {
+    snippets,
+    text: snippets.map(snippet => snippet.text).join(' '),
+    html: snippets.map(snippet => snippet.html).join(' '),
+    matched: matches.length > 0,
+  };
+}
+
+/**
+ * Escape text for safe insertion into HTML
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+interface Range {
+  start: number;
+  end: number;
+}
+
+/**
+ * Non-overlapping matches of any query term, in text order
+ */
+function findMatches(text: string, query: string, caseSensitive: boolean): Range[] {
+  const terms = [...new Set(
+    query
+      .split(/\s+/)
+      .map(term => term.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''))
+      .filter(Boolean)
+  )].sort((a, b) => b.length - a.length);
+
+  if (!terms.length) {
+    return [];
+  }
+
+  const pattern = new RegExp(
+    terms.map(term => term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|'),
+    caseSensitive ? 'gu' : 'giu'
+  );
+
+  const matches: Range[] = [];
+  for (const match of text.matchAll(pattern)) {
+    const start = match.index ?? 0;
+    matches.push({ start, end: start + match[0].length });
+  }
+  return matches;
+}
+
+/**
+ * Context windows around matches, merged where they overlap
+ */
+function mergeWindows(text: string, matches: Range[], window: number): Range[] {
+  const ranges: Range[] = [];
+
+  for (const match of matches) {
+    const start = snapStart(text, Math.max(0, match.start - window), match.start);
+    const end = snapEnd(text, Math.min(text.length, match.end + window), match.end);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last.end) {
+      last.end = Math.max(last.end, end);
+    } else {
+      ranges.push({ start, end });
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Move a cut forward to the next word start (never past `limit`)
+ */
+function snapStart(text: string, start: number, limit: number): number {
+  if (start === 0 || /\s/.test(text[start - 1])) {
+    return start;
+  }
+  const next = text.slice(start, limit).search(/\s/);
+  return next === -1 ? start : start + next + 1;
+}
+
+/**
+ * Move a cut back to the previous word end (never before `limit`)
+ */
+function snapEnd(text: string, end: number, limit: number): number {
+  if (end >= text.length || /\s/.test(text[end])) {
+    return end;
+  }
+  const previous = text.slice(limit, end).search(/\s\S*$/);
+  return previous === -1 ? end : limit + previous;
+}
+
+/**
+ * Render a slice of text with marked matches and collapsed whitespace
+ */
+function render(
+  text: string,
+  start: number,
+  end: number,
+  matches: Range[],
+  markers: HighlightMarkers,
+  encode: (segment: string) => string
+): string {
+  let output = '';
+  let cursor = start;
+
+  for (const match of matches) {
+    output += encode(collapse(text.slice(cursor, match.start)));
+    output += markers.pre + encode(text.slice(match.start, match.end)) + markers.post;
+    cursor = match.end;
+  }
+  output += encode(collapse(text.slice(cursor, end)));
+
+  return output.trim();
+}
+
+function collapse(segment: string): string {
+  return segment.replace(/\s+/g, ' ');
+}
@@ -0,0 +1,130 @@
+/**
+ * Result fusion for hybrid search
+ *
+ * Normalizes semantic (SearchResult) and full-text (FtsMessage)
+ * results into HybridSearchResult, merges them with reciprocal rank
+ * fusion or weighted normalized scores, and deduplicates by message.
+ *
+ * @module @sekha/sdk/hybrid
+ */
+
+import { SekhaValidationError } from './errors';
+import type { FtsMessage, HybridSearchOptions, HybridSearchResult, SearchResult } from './types';
+
+const DEFAULT_RRF_K = 60;
+
+/**
+ * Normalize a semantic search result
+ */
+export function fromSearchResult(result: SearchResult): HybridSearchResult {
+  return {
+    conversation_id: result.conversation_id,
+    message_id: result.message_id,
+    content: result.content,
+    score: 0,
+    sources: ['semantic'],
+    semantic_score: result.score,
+    label: result.label,
+    folder: result.folder,
+    metadata: result.metadata,
+    timestamp: result.timestamp,
+  };
+}
+
+/**
+ * Normalize a full-text search match
+ */
+export function fromFtsMessage(message: FtsMessage): HybridSearchResult {
+  return {
+    conversation_id: message.conversation_id,
+    message_id: message.id,
+    content: message.content,
+    score: 0,
+    sources: ['fts'],
+    fts_rank: message.rank,
+    role: message.role,
+    timestamp: message.timestamp,
+  };
+}
+
+/**
+ * Merge ranked semantic and FTS results
+ *
+ * Each list is taken in the order returned (best first). With 'rrf'
+ * a result scores `weight / (k + rank)` per list; with 'weighted' it
+ * scores `weight × normalized score`, where semantic scores are
+ * min-max scaled and FTS positions are scaled from 1 (first) down.
+ * A message found by both searches gets the sum and keeps the
+ * semantic fields, filling gaps from the FTS match.
+ *
+ * @returns All unique results, best first
+ */
+export function fuseResults(
+  semantic: SearchResult[],
+  fts: FtsMessage[],
+  options: Pick<HybridSearchOptions, 'fusion' | 'weights' | 'rrfK'> = {}
+): HybridSearchResult[] {
+  const fusion = options.fusion ?? 'rrf';
+  const k = options.rrfK ?? DEFAULT_RRF_K;
+  const semanticWeight = options.weights?.semantic ?? 1;
+  const ftsWeight = options.weights?.fts ?? 1;
+
+  if (fusion !== 'rrf' && fusion !== 'weighted') {
+    throw new SekhaValidationError('Invalid fusion method', `fusion must be "rrf" or "weighted", got "${fusion}"`);
+  }
+  for (const [name, value] of [['rrfK', k], ['weights.semantic', semanticWeight], ['weights.fts', ftsWeight]] as const) {
+    if (!Number.isFinite(value) || value < 0) {
+      throw new SekhaValidationError('Invalid hybrid search option', `${name} must be a non-negative number`);
+    }
+  }
+
+  const semanticList = uniqueBy(semantic, result => result.message_id);
+  const ftsList = uniqueBy(fts, message => message.id);
+
+  const scores = semanticList.map(result => result.score);
+  const min = Math.min(...scores);
+  const max = Math.max(...scores);
+
+  const merged = new Map<string, HybridSearchResult>();
+
+  semanticList.forEach((result, index) => {
+    const normalized = max > min ? (result.score - min) / (max - min) : 1;
+    const entry = fromSearchResult(result);
+    entry.score = semanticWeight * (fusion === 'rrf' ? 1 / (k + index + 1) : normalized);
+    merged.set(entry.message_id, entry);
+  });
+
+  ftsList.forEach((message, index) => {
+    const normalized = 1 - index / ftsList.length;
+    const contribution = ftsWeight * (fusion === 'rrf' ? 1 / (k + index + 1) : normalized);
+    const existing = merged.get(message.id);
+
+    if (existing) {
+      existing.score += contribution;
+      existing.sources.push('fts');
+      existing.fts_rank = message.rank;
+      existing.role = message.role;
+    } else {
+      const entry = fromFtsMessage(message);
+      entry.score = contribution;
+      merged.set(entry.message_id, entry);
+    }
+  });
+
+  return [...merged.values()].sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Keep the first occurrence of each key
+ */
+function uniqueBy<T>(items: T[], keyOf: (item: T) => string): T[] {
+  const seen = new Set<string>();
+  return items.filter(item => {
+    const key = keyOf(item);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
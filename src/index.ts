@@ -3,6 +3,30 @@ export { MemoryController, Sekha } from './client';
 export { MCPClient, createMCPClient } from './mcp';
 export { BridgeClient } from './bridge';
 export { SekhaClient, createSekhaClient } from './unified';
+export { QueryBuilder } from './query';
+export { EmbeddingJob } from './jobs';
+export { parseRetentionPolicy, evaluateRetention } from './retention';
+export { groupByConversation, diversify } from './grouping';
+export { highlight, escapeHtml } from './highlight';
+export { normalizeFolder, isWithinFolder, rebaseFolder, buildFolderTree } from './folders';
+
+// Transport, middleware, retry, circuit breaker, limiting & observability
+export { HttpTransport, handleErrorResponse, readJSON, generateIdempotencyKey } from './transport';
+export { applyMiddleware, withHeaders } from './middleware';
+export { CircuitBreaker, isBackendFailure } from './circuit';
+export { RateLimiter } from './ratelimit';
+export { ConcurrencyLimiter } from './concurrency';
+export { SpanStatusCode, formatTraceparent } from './tracing';
+export { createLogger, redact } from './logger';
+export { MetricsRegistry } from './metrics';
+export {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  isRetryableError,
+  computeBackoff,
+  parseRetryAfter,
+  parseRateLimitHeaders,
+} from './retry';
 
 // Types
 export * from './types';
@@ -44,6 +68,69 @@ export type {
   BridgeConfig,
 } from './bridge';
 
+// Transport types
+export type {
+  Transport,
+  TransportRequest,
+  HttpTransportOptions,
+  HttpMethod,
+  FetchLike,
+  ErrorContext,
+} from './transport';
+export type { Middleware, MiddlewareNext } from './middleware';
+export type { RetryPolicy, JitterStrategy } from './retry';
+export type {
+  CircuitState,
+  CircuitStateChange,
+  CircuitBreakerOptions,
+  CircuitSnapshot,
+} from './circuit';
+export type { RateLimiterOptions, RateLimitBudget, EndpointClass } from './ratelimit';
+export type { RequestPriority } from './concurrency';
+export type {
+  Tracer,
+  Span,
+  SpanContext,
+  SpanOptions,
+  SpanAttributes,
+  SpanAttributeValue,
+  TokenUsage,
+} from './tracing';
+export type { Logger, LogLevel, LogFields, LoggerOptions } from './logger';
+export type {
+  MetricsSnapshot,
+  MetricsRegistryOptions,
+  EndpointMetrics,
+  HistogramSnapshot,
+  TokenMetrics,
+} from './metrics';
+
+// Query builder types
+export type { QueryExecutor } from './query';
+
+// Job types
+export type { JobState, JobProgress, JobWaitOptions, JobStatusFetcher } from './jobs';
+
+// Retention types
+export type {
+  RetentionPolicy,
+  RetentionRule,
+  RetentionCandidate,
+  RetentionDecision,
+  RetentionPlan,
+  RetentionPlanOptions,
+  RetentionApplyOptions,
+  RetentionAuditEntry,
+  RetentionResult,
+} from './retention';
+
+// Result grouping & highlighting types
+export type { ScoredHit, GroupOptions, ConversationGroup } from './grouping';
+export type { HighlightOptions, HighlightMarkers, HighlightResult, Snippet } from './highlight';
+
+// Export types
+export type { WritableLike } from './export';
+
 // Unified types
 export type { SekhaConfig } from './unified';
 
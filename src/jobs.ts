@@ -0,0 +1,239 @@
+/**
+ * Background job tracking
+ *
+ * `rebuildEmbeddings()` is accepted with 202 and runs on the
+ * controller. EmbeddingJob polls its status, emits progress events
+ * and can block until the rebuild succeeds or fails. Controllers
+ * without a status route only report an estimated completion time:
+ * progress is estimated from the elapsed time, and completion cannot
+ * be verified, so waiting on such a job fails instead of guessing.
+ *
+ * @module @sekha/sdk/jobs
+ */
+
+import { SekhaError, SekhaAbortError, SekhaAPIError, SekhaTimeoutError, SekhaValidationError } from './errors';
+import { sleep } from './timers';
+import type { CallOptions, RebuildEmbeddingsResponse, RebuildEmbeddingsStatusResponse } from './types';
+
+/**
+ * Job state; 'unknown' once an estimated job passes its estimate,
+ * since the controller cannot say whether it finished
+ */
+export type JobState = 'pending' | 'running' | 'completed' | 'failed' | 'unknown';
+
+/**
+ * Job progress snapshot
+ */
+export interface JobProgress {
+  state: JobState;
+  /** Fraction done, 0-1 */
+  progress: number;
+  processed?: number;
+  total?: number;
+  /** Failure reason when `state` is 'failed' */
+  error?: string;
+  /** True when progress is estimated from elapsed time */
+  estimated: boolean;
+}
+
+/**
+ * Options for waitForCompletion()
+ */
+export interface JobWaitOptions {
+  /** Give up after this many ms (default: no limit) */
+  timeout?: number;
+  /** Stop waiting when aborted (the job keeps running) */
+  signal?: AbortSignal;
+  /** Delay between polls in ms (default: 2000) */
+  interval?: number;
+}
+
+/**
+ * Fetches job status; resolves undefined when the controller has no status route
+ */
+export type JobStatusFetcher = (options: CallOptions) => Promise<RebuildEmbeddingsStatusResponse | undefined>;
+
+const STATES: Record<string, JobState> = {
+  pending: 'pending',
+  queued: 'pending',
+  running: 'running',
+  in_progress: 'running',
+  completed: 'completed',
+  succeeded: 'completed',
+  done: 'completed',
+  failed: 'failed',
+  error: 'failed',
+};
+
+// ============================================
+// Embedding Rebuild Job
+// ============================================
+
+/**
+ * Handle for a running embedding rebuild
+ *
+ * @example
+ * ```typescript
+ * const job = await memory.rebuildEmbeddings();
+ * job.onProgress(({ state, progress }) => console.log(state, Math.round(progress * 100)));
+ *
+ * await job.waitForCompletion({ timeout: 10 * 60_000 });
+ * await runEvaluations();
+ * ```
+ */
+export class EmbeddingJob {
+  /** Controller job ID, when reported */
+  readonly id?: string;
+  /** The controller's 202 response */
+  readonly accepted: RebuildEmbeddingsResponse;
+
+  private readonly fetchStatus: JobStatusFetcher;
+  private readonly listeners = new Set<(progress: JobProgress) => void>();
+  private readonly startedAt = Date.now();
+  private snapshot: JobProgress = { state: 'pending', progress: 0, estimated: false };
+
+  constructor(accepted: RebuildEmbeddingsResponse, fetchStatus: JobStatusFetcher) {
+    this.accepted = accepted;
+    this.fetchStatus = fetchStatus;
+    this.id = accepted.job_id;
+
+    if (accepted.success === false) {
+      this.snapshot = { state: 'failed', progress: 0, error: accepted.message, estimated: false };
+    }
+  }
+
+  /**
+   * Latest known progress
+   */
+  get status(): JobProgress {
+    return { ...this.snapshot };
+  }
+
+  /**
+   * Whether the job has completed or failed
+   */
+  get done(): boolean {
+    return this.snapshot.state === 'completed' || this.snapshot.state === 'failed';
+  }
+
+  /**
+   * Subscribe to progress changes
+   *
+   * @returns Unsubscribe function
+   */
+  onProgress(listener: (progress: JobProgress) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Fetch the current progress
+   *
+   * Once the job is done the final state is returned without a request.
+   *
+   * @param options - Queue priority and abort signal
+   */
+  async poll(options: CallOptions = {}): Promise<JobProgress> {
+    if (this.done) {
+      return this.status;
+    }
+
+    const response = await this.fetchStatus(options);
+    this.update(response ? fromStatusResponse(response) : this.estimate());
+    return this.status;
+  }
+
+  /**
+   * Poll until the job completes
+   *
+   * @param options - Timeout, abort signal and poll interval
+   * @returns Final progress
+   * @throws SekhaAPIError if the job fails
+   * @throws SekhaError if job status is unavailable because the controller has no status route
+   * @throws SekhaTimeoutError if `timeout` elapses first
+   * @throws SekhaAbortError if `signal` aborts
+   */
+  async waitForCompletion(options: JobWaitOptions = {}): Promise<JobProgress> {
+    const interval = options.interval ?? 2000;
+    if (!(interval > 0) || (options.timeout !== undefined && !(options.timeout >= 0))) {
+      throw new SekhaValidationError('Invalid wait options', 'interval must be positive and timeout non-negative');
+    }
+
+    const deadline = options.timeout === undefined ? Infinity : Date.now() + options.timeout;
+
+    for (;;) {
+      if (options.signal?.aborted) {
+        throw new SekhaAbortError('Job wait aborted');
+      }
+
+      const progress = await this.poll({ signal: options.signal });
+      if (progress.state === 'completed') {
+        return progress;
+      }
+      if (progress.state === 'failed') {
+        throw new SekhaAPIError(
+          `Embedding rebuild failed: ${progress.error ?? 'unknown error'}`,
+          200,
+          JSON.stringify(progress)
+        );
+      }
+      if (progress.estimated) {
+        throw new SekhaError(
+          'Embedding rebuild completion cannot be verified: job status is unavailable because the controller has no status route'
+        );
+      }
+
+      const remaining = deadline - Date.now();
+      if (remaining <= 0) {
+        throw new SekhaTimeoutError('Embedding rebuild did not complete in time', options.timeout ?? 0);
+      }
+      await sleep(Math.min(interval, remaining), options.signal, 'Job wait aborted');
+    }
+  }
+
+  private update(next: JobProgress): void {
+    const previous = this.snapshot;
+    this.snapshot = next;
+
+    if (
+      next.state !== previous.state ||
+      next.progress !== previous.progress ||
+      next.processed !== previous.processed
+    ) {
+      for (const listener of this.listeners) {
+        listener(this.status);
+      }
+    }
+  }
+
+  /**
+   * Progress from elapsed time against the estimated completion time
+   *
+   * Never 'completed': past the estimate (or without one) the state
+   * is 'unknown'.
+   */
+  private estimate(): JobProgress {
+    const expected = (this.accepted.estimated_completion_seconds ?? 0) * 1000;
+    const progress = expected > 0 ? Math.min((Date.now() - this.startedAt) / expected, 1) : 0;
+    return { state: expected > 0 && progress < 1 ? 'running' : 'unknown', progress, estimated: true };
+  }
+}
+
+function fromStatusResponse(response: RebuildEmbeddingsStatusResponse): JobProgress {
+  const state = STATES[response.status?.toLowerCase()] ?? 'running';
+  let progress = response.progress;
+  if (progress === undefined && response.processed !== undefined && response.total) {
+    progress = response.processed / response.total;
+  }
+
+  return {
+    state,
+    progress: state === 'completed' ? 1 : Math.min(Math.max(progress ?? 0, 0), 1),
+    processed: response.processed,
+    total: response.total,
+    error: state === 'failed' ? response.error : undefined,
+    estimated: false,
+  };
+}
@@ -0,0 +1,169 @@
+/**
+ * Structured logging for Sekha clients
+ *
+ * Clients accept any leveled logger (console, pino, winston, ...)
+ * and wrap it with level filtering and redaction: Authorization
+ * headers and API keys never reach the sink, and message content
+ * can optionally be masked.
+ *
+ * @module @sekha/sdk/logger
+ */
+
+// ============================================
+// Logger Types
+// ============================================
+
+/**
+ * Log levels, from most to least verbose
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error' | 'silent';
+
+/**
+ * Structured fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Leveled logger interface (console-compatible)
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+/**
+ * Logger wrapping options
+ */
+export interface LoggerOptions {
+  /** Minimum level to emit (default: 'info') */
+  level?: LogLevel;
+  /** Replace message content, queries and raw payloads with a placeholder */
+  maskContent?: boolean;
+  /** Secret values scrubbed from every message and string field */
+  secrets?: Array<string | undefined>;
+}
+
+const LEVEL_ORDER: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+  silent: 100,
+};
+
+const REDACTED = '[REDACTED]';
+const MASKED = '[MASKED]';
+
+/** Field names whose values are always redacted */
+const SECRET_KEYS = /^(authorization|proxy-authorization|x-api-key|api[-_]?key|mcp[-_]?api[-_]?key|bridge[-_]?api[-_]?key)$/i;
+
+/** Field names holding user content, masked when maskContent is on */
+const CONTENT_KEYS = /^(content|text|query|summary|raw)$/i;
+
+const MAX_DEPTH = 8;
+
+// ============================================
+// Logger Factory
+// ============================================
+
+/**
+ * Wrap a logger with level filtering and redaction
+ *
+ * Without a sink the returned logger discards everything.
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryController({
+ *   baseURL, apiKey,
+ *   logger: console,
+ *   logLevel: 'debug',
+ *   maskContent: true
+ * });
+ * ```
+ */
+export function createLogger(sink?: Logger, options: LoggerOptions = {}): Logger {
+  const threshold = LEVEL_ORDER[options.level ?? 'info'];
+  const secrets = (options.secrets ?? []).filter((secret): secret is string => !!secret);
+  const maskContent = options.maskContent ?? false;
+
+  const emit = (level: Exclude<LogLevel, 'silent'>) =>
+    (message: string, fields?: LogFields): void => {
+      if (!sink || LEVEL_ORDER[level] < threshold) {
+        return;
+      }
+
+      const safeMessage = scrub(message, secrets);
+      if (fields) {
+        sink[level](safeMessage, redact(fields, { secrets, maskContent }) as LogFields);
+      } else {
+        sink[level](safeMessage);
+      }
+    };
+
+  return {
+    debug: emit('debug'),
+    info: emit('info'),
+    warn: emit('warn'),
+    error: emit('error'),
+  };
+}
+
+/**
+ * Redact secrets (and optionally content) from a value
+ *
+ * Objects and arrays are copied; errors become `{ name, message }`.
+ */
+export function redact(
+  value: unknown,
+  options: { secrets?: string[]; maskContent?: boolean } = {},
+  depth = 0
+): unknown {
+  const secrets = options.secrets ?? [];
+
+  if (typeof value === 'string') {
+    return scrub(value, secrets);
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+
+  if (value instanceof Error) {
+    return { name: value.name, message: scrub(value.message, secrets) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, options, depth + 1));
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    if (SECRET_KEYS.test(key)) {
+      result[key] = REDACTED;
+    } else if (options.maskContent && CONTENT_KEYS.test(key)) {
+      result[key] = MASKED;
+    } else {
+      result[key] = redact(entry, options, depth + 1);
+    }
+  }
+  return result;
+}
+
+/**
+ * Replace every occurrence of a secret value in a string
+ */
+function scrub(text: string, secrets: string[]): string {
+  let result = text;
+  for (const secret of secrets) {
+    if (result.includes(secret)) {
+      result = result.split(secret).join(REDACTED);
+    }
+  }
+  return result;
+}
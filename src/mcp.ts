@@ -8,14 +8,16 @@
  */
 
 import { Message, MemoryConfig } from './types';
-import {
-  SekhaError,
-  SekhaNotFoundError,
-  SekhaValidationError,
-  SekhaAPIError,
-  SekhaAuthError,
-  SekhaConnectionError,
-} from './errors';
+import { SekhaValidationError, SekhaAPIError } from './errors';
+import { FetchLike, HttpTransport, Transport, TransportRequest, readJSON } from './transport';
+import { Middleware, applyMiddleware } from './middleware';
+import type { RetryPolicy } from './retry';
+import { CircuitBreaker, CircuitBreakerOptions, toCircuitBreaker, withCircuitBreaker } from './circuit';
+import { ConcurrencyLimiter, toConcurrencyLimiter, withConcurrencyLimit } from './concurrency';
+import type { RateLimiter, EndpointClass } from './ratelimit';
+import { Tracer, traceRequest, recordResponse } from './tracing';
+import { MetricsRegistry, measureRequest } from './metrics';
+import { Logger, LogLevel, createLogger } from './logger';
 
 // ============================================
 // MCP Types
@@ -134,6 +136,30 @@ export interface MCPConfig {
   apiKey?: string; // Fallback to regular API key
   timeout?: number;
   maxRetries?: number;
+  /** Custom transport (overrides fetch, timeout and maxRetries handling) */
+  transport?: Transport;
+  /** Custom fetch implementation for the default transport */
+  fetch?: FetchLike;
+  /** Middleware run around every request */
+  middleware?: Middleware[];
+  /** Retry policy overrides */
+  retry?: Partial<RetryPolicy>;
+  /** Circuit breaker instance or options (disabled by default) */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions | boolean;
+  /** Rate limiter, typically shared with the MemoryController (none by default) */
+  rateLimiter?: RateLimiter;
+  /** Max in-flight requests; extra requests queue by priority (unlimited by default) */
+  maxConcurrency?: number | ConcurrencyLimiter;
+  /** Tracer for per-request spans (e.g. an OpenTelemetry tracer) */
+  tracer?: Tracer;
+  /** Logger for requests, retries and parse failures (API keys are always redacted) */
+  logger?: Logger;
+  /** Minimum log level (default: 'info') */
+  logLevel?: LogLevel;
+  /** Mask message content and queries in log output */
+  maskContent?: boolean;
+  /** Registry for request, retry, rate-limit and token metrics */
+  metrics?: MetricsRegistry;
 }
 
 /**
@@ -162,7 +188,23 @@ export interface MCPConfig {
  * ```
  */
 export class MCPClient {
-  private config: Required<MCPConfig>;
+  private config: Required<
+    Omit<
+      MCPConfig,
+      'transport' | 'fetch' | 'middleware' | 'retry' | 'circuitBreaker' | 'rateLimiter' | 'maxConcurrency' | 'tracer'
+      | 'logger' | 'logLevel' | 'maskContent' | 'metrics'
+    >
+  >;
+  private transport: Transport;
+  private tracer?: Tracer;
+  private logger: Logger;
+  private metrics?: MetricsRegistry;
+
+  /** Circuit breaker guarding this client's backend, if enabled */
+  public readonly circuitBreaker?: CircuitBreaker;
+
+  /** Concurrency limiter queueing this client's requests, if enabled */
+  public readonly concurrency?: ConcurrencyLimiter;
 
   constructor(config: MCPConfig) {
     // Validate URL
@@ -191,6 +233,30 @@ export class MCPClient {
       timeout: config.timeout ?? 30000,
       maxRetries: config.maxRetries ?? 3,
     };
+
+    this.circuitBreaker = toCircuitBreaker(config.circuitBreaker, 'mcp');
+    this.concurrency = toConcurrencyLimiter(config.maxConcurrency);
+    this.tracer = config.tracer;
+    this.metrics = config.metrics;
+    this.logger = createLogger(config.logger, {
+      level: config.logLevel,
+      maskContent: config.maskContent,
+      secrets: [config.mcpApiKey, config.apiKey],
+    });
+    const transport = config.transport ?? new HttpTransport({
+      fetch: config.fetch,
+      timeout: this.config.timeout,
+      maxRetries: this.config.maxRetries,
+      retry: config.retry,
+      service: 'MCP',
+      rateLimiter: config.rateLimiter,
+      logger: this.logger,
+    });
+    this.transport = applyMiddleware(
+      withConcurrencyLimit(withCircuitBreaker(transport, this.circuitBreaker), this.concurrency),
+      config.middleware,
+      'MCP'
+    );
   }
 
   /**
@@ -218,7 +284,8 @@ export class MCPClient {
   async memoryStore(
     args: MemoryStoreArgs
   ): Promise<McpToolResponse<{ conversation_id: string; id: string; label: string; folder: string }>> {
-    return this.request('/mcp/tools/memory_store', args);
+    // Not idempotent: a retried store can create a duplicate conversation
+    return this.request('/mcp/tools/memory_store', args, { idempotent: false, endpointClass: 'write' });
   }
 
   /**
@@ -245,7 +312,7 @@ export class MCPClient {
   async memorySearch(
     args: MemorySearchArgs
   ): Promise<McpToolResponse<{ query: string; total_results: number; limit: number; results: MemorySearchResult[] }>> {
-    return this.request('/mcp/tools/memory_search', args);
+    return this.request('/mcp/tools/memory_search', args, { endpointClass: 'search' });
   }
 
   /**
@@ -304,7 +371,7 @@ export class MCPClient {
   async memoryUpdate(
     args: MemoryUpdateArgs
   ): Promise<McpToolResponse<{ conversation_id: string; updated_fields: string[]; message: string }>> {
-    return this.request('/mcp/tools/memory_update', args);
+    return this.request('/mcp/tools/memory_update', args, { endpointClass: 'write' });
   }
 
   /**
@@ -423,136 +490,45 @@ export class MCPClient {
   private async request<T>(
     endpoint: string,
     args: any,
-    retryCount: number = 0
+    options: { idempotent?: boolean; endpointClass?: EndpointClass } = {}
   ): Promise<McpToolResponse<T>> {
     const url = `${this.config.baseURL}${endpoint}`;
+    const request: TransportRequest = {
+      method: 'POST',
+      url,
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${this.config.mcpApiKey}`,
+        'User-Agent': 'Sekha-JS-SDK-MCP/1.0.0',
+      },
+      body: JSON.stringify(args),
+      idempotent: options.idempotent ?? true,
+      endpointClass: options.endpointClass ?? 'read',
+    };
 
-    // Create abort controller with timeout
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      this.config.timeout
+    return measureRequest(this.metrics, 'mcp', endpoint, request, measured =>
+      traceRequest(this.tracer, 'mcp', endpoint, measured, async (traced, span) => {
+        const response = await this.transport.send(traced);
+        const data = await readJSON<McpToolResponse<T>>(response, this.logger);
+        recordResponse(span, response.status, data);
+
+        // Check MCP-level success
+        if (!data.success && data.error) {
+          throw new SekhaAPIError(
+            `MCP tool failed: ${data.error}`,
+            response.status,
+            JSON.stringify(data),
+            {
+              requestId: response.headers?.get('X-Request-ID') ?? undefined,
+              method: 'POST',
+              url,
+            }
+          );
+        }
+
+        return data;
+      })
     );
-
-    try {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.config.mcpApiKey}`,
-          'User-Agent': 'Sekha-JS-SDK-MCP/1.0.0',
-        },
-        body: JSON.stringify(args),
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (!response.ok) {
-        await this.handleError(response);
-      }
-
-      const data: McpToolResponse<T> = await response.json();
-
-      // Check MCP-level success
-      if (!data.success && data.error) {
-        throw new SekhaAPIError(
-          `MCP tool failed: ${data.error}`,
-          response.status,
-          JSON.stringify(data)
-        );
-      }
-
-      return data;
-      
-    } catch (error: any) {
-      clearTimeout(timeoutId);
-
-      // Handle timeout
-      if (error.name === 'AbortError') {
-        throw new SekhaConnectionError(
-          `MCP request timed out after ${this.config.timeout}ms`
-        );
-      }
-
-      // Retry on network errors
-      if (
-        retryCount < this.config.maxRetries &&
-        this.isRetryableError(error)
-      ) {
-        await this.wait(Math.pow(2, retryCount) * 500);
-        return this.request(endpoint, args, retryCount + 1);
-      }
-
-      // Re-throw Sekha errors
-      if (error instanceof SekhaError) {
-        throw error;
-      }
-
-      // Wrap unknown errors
-      throw new SekhaConnectionError(`MCP request failed: ${error.message}`);
-    }
-  }
-
-  /**
-   * Handle HTTP error responses
-   */
-  private async handleError(response: Response): Promise<never> {
-    let errorData: any;
-    
-    try {
-      errorData = await response.json();
-    } catch {
-      errorData = { error: 'Failed to parse error response' };
-    }
-
-    const message = errorData.error || errorData.message || 'Unknown error';
-
-    switch (response.status) {
-      case 400:
-        throw new SekhaValidationError(message, JSON.stringify(errorData));
-        
-      case 401:
-      case 403:
-        throw new SekhaAuthError(
-          'MCP authentication failed. Check your MCP API key.'
-        );
-        
-      case 404:
-        throw new SekhaNotFoundError(message);
-        
-      case 429:
-        throw new SekhaAPIError(
-          'Rate limit exceeded',
-          response.status,
-          JSON.stringify(errorData)
-        );
-        
-      default:
-        throw new SekhaAPIError(
-          message,
-          response.status,
-          JSON.stringify(errorData)
-        );
-    }
-  }
-
-  /**
-   * Check if error is retryable
-   */
-  private isRetryableError(error: any): boolean {
-    if (error instanceof SekhaAuthError) return false;
-    if (error instanceof SekhaValidationError) return false;
-    if (error instanceof SekhaNotFoundError) return false;
-    
-    return true;
-  }
-
-  /**
-   * Wait helper for backoff
-   */
-  private wait(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
   }
 }
 
@@ -567,5 +543,17 @@ export function createMCPClient(config: MemoryConfig): MCPClient {
     apiKey: config.apiKey,
     timeout: config.timeout,
     maxRetries: config.maxRetries,
+    transport: config.transport,
+    fetch: config.fetch,
+    middleware: config.middleware,
+    retry: config.retry,
+    circuitBreaker: config.circuitBreaker,
+    rateLimiter: config.rateLimiter,
+    maxConcurrency: config.maxConcurrency,
+    tracer: config.tracer,
+    logger: config.logger,
+    logLevel: config.logLevel,
+    maskContent: config.maskContent,
+    metrics: config.metrics,
   });
 }
@@ -0,0 +1,379 @@
+/**
+ * Client-side metrics for Sekha clients
+ *
+ * In-process registry of request counts, latencies, errors, retries,
+ * rate-limiter waits and bridge token usage. Export as Prometheus
+ * text or a plain JSON snapshot; share one registry across clients.
+ *
+ * @module @sekha/sdk/metrics
+ */
+
+import { routeOf } from './tracing';
+import type { TransportRequest } from './transport';
+
+// ============================================
+// Metrics Types
+// ============================================
+
+/**
+ * Latency histogram for one label set
+ */
+export interface HistogramSnapshot {
+  /** Upper bounds (seconds) with cumulative counts */
+  buckets: Array<{ le: number; count: number }>;
+  /** Sum of observed durations (seconds) */
+  sum: number;
+  count: number;
+}
+
+/**
+ * Per-endpoint request statistics
+ */
+export interface EndpointMetrics {
+  service: string;
+  endpoint: string;
+  method: string;
+  requests: number;
+  errors: number;
+  /** Error counts by error class name */
+  errorsByType: Record<string, number>;
+  retries: number;
+  latency: HistogramSnapshot;
+}
+
+/**
+ * Token usage per service and model
+ */
+export interface TokenMetrics {
+  service: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Plain JSON view of the registry
+ */
+export interface MetricsSnapshot {
+  endpoints: EndpointMetrics[];
+  /** Total rate-limiter wait (ms) per service and endpoint class */
+  rateLimitWaits: Array<{ service: string; endpointClass: string; waits: number; totalMs: number }>;
+  tokens: TokenMetrics[];
+}
+
+/**
+ * Metrics registry configuration
+ */
+export interface MetricsRegistryOptions {
+  /** Latency histogram upper bounds in seconds */
+  buckets?: number[];
+  /** Metric name prefix (default: 'sekha_sdk') */
+  prefix?: string;
+}
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+interface EndpointEntry extends Omit<EndpointMetrics, 'latency'> {
+  bucketCounts: number[];
+  latencySum: number;
+}
+
+// ============================================
+// Metrics Registry
+// ============================================
+
+/**
+ * In-process metrics registry
+ *
+ * @example
+ * ```typescript
+ * const metrics = new MetricsRegistry();
+ * const sekha = new SekhaClient({ controllerURL, bridgeURL, apiKey, metrics });
+ *
+ * // Expose for Prometheus scraping
+ * app.get('/metrics', (_req, res) => res.type('text/plain').send(metrics.toPrometheus()));
+ * ```
+ */
+export class MetricsRegistry {
+  private readonly buckets: number[];
+  private readonly prefix: string;
+  private readonly endpoints = new Map<string, EndpointEntry>();
+  private readonly waits = new Map<string, { service: string; endpointClass: string; waits: number; totalMs: number }>();
+  private readonly tokens = new Map<string, TokenMetrics>();
+
+  constructor(options: MetricsRegistryOptions = {}) {
+    this.buckets = [...(options.buckets ?? DEFAULT_BUCKETS)].sort((a, b) => a - b);
+    this.prefix = options.prefix ?? 'sekha_sdk';
+  }
+
+  /**
+   * Record a finished request
+   *
+   * @param error - Failure, if the request did not succeed
+   */
+  recordRequest(service: string, endpoint: string, method: string, durationMs: number, error?: unknown): void {
+    const entry = this.endpoint(service, endpoint, method);
+    entry.requests++;
+
+    const seconds = durationMs / 1000;
+    entry.latencySum += seconds;
+    this.buckets.forEach((bound, index) => {
+      if (seconds <= bound) {
+        entry.bucketCounts[index]++;
+      }
+    });
+
+    if (error !== undefined) {
+      const type = error instanceof Error ? error.name : 'Error';
+      entry.errors++;
+      entry.errorsByType[type] = (entry.errorsByType[type] ?? 0) + 1;
+    }
+  }
+
+  /**
+   * Record a retry attempt
+   */
+  recordRetry(service: string, endpoint: string, method: string): void {
+    this.endpoint(service, endpoint, method).retries++;
+  }
+
+  /**
+   * Record time spent waiting on the rate limiter
+   */
+  recordRateLimitWait(service: string, endpointClass: string, waitMs: number): void {
+    const key = `${service}\u0000${endpointClass}`;
+    let entry = this.waits.get(key);
+    if (!entry) {
+      entry = { service, endpointClass, waits: 0, totalMs: 0 };
+      this.waits.set(key, entry);
+    }
+    entry.waits++;
+    entry.totalMs += waitMs;
+  }
+
+  /**
+   * Add token usage for a model
+   */
+  recordTokens(
+    service: string,
+    model: string,
+    usage: { prompt?: number; completion?: number; total?: number }
+  ): void {
+    const key = `${service}\u0000${model}`;
+    let entry = this.tokens.get(key);
+    if (!entry) {
+      entry = { service, model, promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      this.tokens.set(key, entry);
+    }
+    entry.promptTokens += usage.prompt ?? 0;
+    entry.completionTokens += usage.completion ?? 0;
+    entry.totalTokens += usage.total ?? (usage.prompt ?? 0) + (usage.completion ?? 0);
+  }
+
+  /**
+   * Plain JSON snapshot of all metrics
+   */
+  snapshot(): MetricsSnapshot {
+    return {
+      endpoints: [...this.endpoints.values()].map(entry => ({
+        service: entry.service,
+        endpoint: entry.endpoint,
+        method: entry.method,
+        requests: entry.requests,
+        errors: entry.errors,
+        errorsByType: { ...entry.errorsByType },
+        retries: entry.retries,
+        latency: {
+          buckets: this.buckets.map((le, index) => ({ le, count: entry.bucketCounts[index] })),
+          sum: entry.latencySum,
+          count: entry.requests,
+        },
+      })),
+      rateLimitWaits: [...this.waits.values()].map(entry => ({ ...entry })),
+      tokens: [...this.tokens.values()].map(entry => ({ ...entry })),
+    };
+  }
+
+  /**
+   * Prometheus text exposition format (0.0.4)
+   */
+  toPrometheus(): string {
+    const p = this.prefix;
+    const lines: string[] = [];
+    const endpoints = [...this.endpoints.values()];
+
+    lines.push(`# HELP ${p}_requests_total SDK requests by endpoint.`);
+    lines.push(`# TYPE ${p}_requests_total counter`);
+    for (const entry of endpoints) {
+      lines.push(`${p}_requests_total${labels(entryLabels(entry))} ${entry.requests}`);
+    }
+
+    lines.push(`# HELP ${p}_request_errors_total Failed SDK requests by endpoint and error type.`);
+    lines.push(`# TYPE ${p}_request_errors_total counter`);
+    for (const entry of endpoints) {
+      for (const [type, count] of Object.entries(entry.errorsByType)) {
+        lines.push(`${p}_request_errors_total${labels({ ...entryLabels(entry), error: type })} ${count}`);
+      }
+    }
+
+    lines.push(`# HELP ${p}_retries_total Retry attempts by endpoint.`);
+    lines.push(`# TYPE ${p}_retries_total counter`);
+    for (const entry of endpoints) {
+      lines.push(`${p}_retries_total${labels(entryLabels(entry))} ${entry.retries}`);
+    }
+
+    lines.push(`# HELP ${p}_request_duration_seconds SDK request latency, retries included.`);
+    lines.push(`# TYPE ${p}_request_duration_seconds histogram`);
+    for (const entry of endpoints) {
+      const base = entryLabels(entry);
+      this.buckets.forEach((le, index) => {
+        lines.push(
+          `${p}_request_duration_seconds_bucket${labels({ ...base, le: String(le) })} ${entry.bucketCounts[index]}`
+        );
+      });
+      lines.push(`${p}_request_duration_seconds_bucket${labels({ ...base, le: '+Inf' })} ${entry.requests}`);
+      lines.push(`${p}_request_duration_seconds_sum${labels(base)} ${entry.latencySum}`);
+      lines.push(`${p}_request_duration_seconds_count${labels(base)} ${entry.requests}`);
+    }
+
+    lines.push(`# HELP ${p}_rate_limit_wait_seconds_total Time spent waiting on the client rate limiter.`);
+    lines.push(`# TYPE ${p}_rate_limit_wait_seconds_total counter`);
+    for (const entry of this.waits.values()) {
+      const set = { service: entry.service, endpoint_class: entry.endpointClass };
+      lines.push(`${p}_rate_limit_wait_seconds_total${labels(set)} ${entry.totalMs / 1000}`);
+    }
+
+    lines.push(`# HELP ${p}_tokens_total LLM tokens reported by the bridge.`);
+    lines.push(`# TYPE ${p}_tokens_total counter`);
+    for (const entry of this.tokens.values()) {
+      const base = { service: entry.service, model: entry.model };
+      lines.push(`${p}_tokens_total${labels({ ...base, type: 'prompt' })} ${entry.promptTokens}`);
+      lines.push(`${p}_tokens_total${labels({ ...base, type: 'completion' })} ${entry.completionTokens}`);
+      lines.push(`${p}_tokens_total${labels({ ...base, type: 'total' })} ${entry.totalTokens}`);
+    }
+
+    return lines.join('\n') + '\n';
+  }
+
+  /**
+   * Clear all recorded metrics
+   */
+  reset(): void {
+    this.endpoints.clear();
+    this.waits.clear();
+    this.tokens.clear();
+  }
+
+  private endpoint(service: string, endpoint: string, method: string): EndpointEntry {
+    const key = `${service}\u0000${method}\u0000${endpoint}`;
+    let entry = this.endpoints.get(key);
+    if (!entry) {
+      entry = {
+        service,
+        endpoint,
+        method,
+        requests: 0,
+        errors: 0,
+        errorsByType: {},
+        retries: 0,
+        bucketCounts: this.buckets.map(() => 0),
+        latencySum: 0,
+      };
+      this.endpoints.set(key, entry);
+    }
+    return entry;
+  }
+}
+
+// ============================================
+// Request Measurement
+// ============================================
+
+/**
+ * Run a request while recording its metrics
+ *
+ * Records count, latency and errors for the endpoint, retries and
+ * rate-limiter waits reported by the transport, and token usage
+ * found in the result. Without a registry the request runs untouched.
+ */
+export async function measureRequest<T>(
+  metrics: MetricsRegistry | undefined,
+  service: string,
+  endpoint: string,
+  request: TransportRequest,
+  execute: (request: TransportRequest) => Promise<T>
+): Promise<T> {
+  if (!metrics) {
+    return execute(request);
+  }
+
+  const route = routeOf(endpoint);
+  const startedAt = Date.now();
+
+  const measured: TransportRequest = {
+    ...request,
+    onRetry: (attempt, delayMs, error) => {
+      metrics.recordRetry(service, route, request.method);
+      request.onRetry?.(attempt, delayMs, error);
+    },
+    onRateLimitWait: waitMs => {
+      metrics.recordRateLimitWait(service, request.endpointClass ?? 'default', waitMs);
+      request.onRateLimitWait?.(waitMs);
+    },
+  };
+
+  try {
+    const result = await execute(measured);
+    metrics.recordRequest(service, route, request.method, Date.now() - startedAt);
+    recordTokenUsage(metrics, service, result);
+    return result;
+  } catch (error: unknown) {
+    metrics.recordRequest(service, route, request.method, Date.now() - startedAt, error ?? new Error('Unknown error'));
+    throw error;
+  }
+}
+
+/**
+ * Sum token usage from CompletionUsage or `tokens_used`
+ *
+ * Called with each result by measureRequest(); streams call it with
+ * the chunk that carries usage.
+ */
+export function recordTokenUsage(metrics: MetricsRegistry, service: string, result: unknown): void {
+  if (!result || typeof result !== 'object') {
+    return;
+  }
+
+  const record = result as Record<string, unknown>;
+  const model = typeof record.model === 'string' ? record.model : 'unknown';
+  const usage = record.usage as Record<string, unknown> | undefined;
+
+  if (usage && typeof usage === 'object') {
+    metrics.recordTokens(service, model, {
+      prompt: numberOr(usage.prompt_tokens),
+      completion: numberOr(usage.completion_tokens),
+      total: numberOr(usage.total_tokens),
+    });
+  } else if (typeof record.tokens_used === 'number') {
+    metrics.recordTokens(service, model, { total: record.tokens_used });
+  }
+}
+
+function numberOr(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+function entryLabels(entry: EndpointEntry): Record<string, string> {
+  return { service: entry.service, endpoint: entry.endpoint, method: entry.method };
+}
+
+/**
+ * Render a Prometheus label set
+ */
+function labels(set: Record<string, string>): string {
+  const rendered = Object.entries(set)
+    .map(([key, value]) => `${key}="${value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`)
+    .join(',');
+  return `{${rendered}}`;
+}
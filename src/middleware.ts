@@ -0,0 +1,104 @@
+/**
+ * Request/response middleware for Sekha clients
+ *
+ * Middleware wraps every HTTP call made through a client's transport.
+ * Each middleware receives the outgoing request and a `next` function;
+ * it may rewrite the request, inspect or replace the response, or
+ * short-circuit by returning a Response without calling `next`.
+ *
+ * @module @sekha/sdk/middleware
+ */
+
+import { handleErrorResponse } from './transport';
+import type { Transport, TransportRequest } from './transport';
+
+/**
+ * Continue the pipeline with a (possibly modified) request
+ */
+export type MiddlewareNext = (request: TransportRequest) => Promise<Response>;
+
+/**
+ * Middleware function
+ *
+ * Non-2xx responses reach middleware as rejected SekhaErrors, so use
+ * try/catch around `next()` to observe failures. A non-2xx Response
+ * returned by middleware is mapped to the same errors.
+ *
+ * @example
+ * ```typescript
+ * const audit: Middleware = async (request, next) => {
+ *   const started = Date.now();
+ *   const response = await next(request);
+ *   console.log(`${request.method} ${request.url} ${response.status} ${Date.now() - started}ms`);
+ *   return response;
+ * };
+ *
+ * const memory = new MemoryController({ baseURL, apiKey, middleware: [audit] });
+ * ```
+ */
+export type Middleware = (
+  request: TransportRequest,
+  next: MiddlewareNext
+) => Promise<Response>;
+
+/**
+ * Wrap a transport with a middleware chain
+ *
+ * The first middleware in the array is the outermost one.
+ *
+ * @param transport - Transport that performs the actual request
+ * @param middleware - Middleware to run around each call
+ * @param service - Service name used to prefix error messages (e.g. 'MCP')
+ * @returns Transport running the full pipeline
+ */
+export function applyMiddleware(transport: Transport, middleware: Middleware[] = [], service?: string): Transport {
+  if (middleware.length === 0) {
+    return transport;
+  }
+
+  const dispatch = (index: number, request: TransportRequest): Promise<Response> => {
+    if (index >= middleware.length) {
+      return transport.send(request);
+    }
+    return middleware[index](request, next => dispatch(index + 1, next));
+  };
+
+  return {
+    send: async request => {
+      const response = await dispatch(0, request);
+      // Short-circuited responses never went through the transport's error mapping
+      if (!response.ok) {
+        await handleErrorResponse(response, { service, method: request.method, url: request.url });
+      }
+      return response;
+    },
+  };
+}
+
+/**
+ * Middleware that sets extra headers on every request
+ *
+ * @param headers - Static headers, or a function computing them per request
+ *
+ * @example
+ * ```typescript
+ * const memory = new MemoryController({
+ *   baseURL,
+ *   apiKey,
+ *   middleware: [withHeaders({ 'X-Tenant-ID': 'acme' })]
+ * });
+ * ```
+ */
+export function withHeaders(
+  headers:
+    | Record<string, string>
+    | ((request: TransportRequest) => Record<string, string> | Promise<Record<string, string>>)
+): Middleware {
+  return async (request, next) => {
+    const extra = typeof headers === 'function' ? await headers(request) : headers;
+    return next({
+      ...request,
+      headers: { ...request.headers, ...extra },
+    });
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * Automatic pagination for Sekha list and search endpoints
+ *
+ * Turns offset/limit endpoints into async iterators that fetch the
+ * next page on demand and stop on an empty page or once `total`
+ * items have been seen.
+ *
+ * @module @sekha/sdk/pagination
+ */
+
+import { SekhaAbortError, SekhaValidationError } from './errors';
+import type { PaginateOptions } from './types';
+
+// ============================================
+// Pagination Types
+// ============================================
+
+/**
+ * Page requested from an endpoint
+ */
+export interface PageRequest {
+  /** Number of items already seen */
+  offset: number;
+  /** Items wanted in this page */
+  limit: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Page returned by an endpoint
+ */
+export interface Page<T> {
+  items: T[];
+  /** Total matching items, if the endpoint reports it */
+  total?: number;
+}
+
+// ============================================
+// Paginator
+// ============================================
+
+/**
+ * Iterate over every item of a paged endpoint
+ *
+ * @param fetchPage - Fetches one page
+ * @param options - Page size, item cap and abort signal
+ * @param defaultPageSize - Page size when none is given
+ */
+export async function* paginate<T>(
+  fetchPage: (request: PageRequest) => Promise<Page<T>>,
+  options: PaginateOptions = {},
+  defaultPageSize = 50
+): AsyncGenerator<T, void, undefined> {
+  const pageSize = options.pageSize ?? defaultPageSize;
+  const { maxItems, signal } = options;
+
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    throw new SekhaValidationError('Invalid page size', `pageSize must be a positive integer, got ${pageSize}`);
+  }
+  if (maxItems !== undefined && (!Number.isInteger(maxItems) || maxItems < 0)) {
+    throw new SekhaValidationError('Invalid item limit', `maxItems must be a non-negative integer, got ${maxItems}`);
+  }
+
+  let offset = 0;
+  let yielded = 0;
+
+  while (maxItems === undefined || yielded < maxItems) {
+    if (signal?.aborted) {
+      throw new SekhaAbortError('Pagination aborted');
+    }
+
+    const limit = maxItems === undefined ? pageSize : Math.min(pageSize, maxItems - yielded);
+    const page = await fetchPage({ offset, limit, signal });
+
+    if (page.items.length === 0) {
+      return;
+    }
+
+    for (const item of page.items) {
+      if (maxItems !== undefined && yielded >= maxItems) {
+        return;
+      }
+      yield item;
+      yielded++;
+    }
+
+    offset += page.items.length;
+    if (page.total !== undefined && offset >= page.total) {
+      return;
+    }
+  }
+}
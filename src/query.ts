@@ -0,0 +1,305 @@
+/**
+ * Fluent query builder for semantic search
+ *
+ * Builds a typed QueryRequest step by step. Builders are immutable,
+ * so a base query can be reused, and they serialize to and from
+ * JSON for saved searches. Awaiting a builder runs the query.
+ *
+ * @module @sekha/sdk/query
+ */
+
+import { SekhaValidationError } from './errors';
+import { validateFilters, validateSort, compactFilters } from './filters';
+import type {
+  CallOptions,
+  ConversationStatus,
+  FilterParams,
+  PaginateOptions,
+  QueryRequest,
+  QueryResponse,
+  SearchOptions,
+  SearchResult,
+  SortParams,
+} from './types';
+
+/**
+ * Runs built queries (implemented by MemoryController)
+ */
+export interface QueryExecutor {
+  query(query: string, options?: SearchOptions): Promise<QueryResponse>;
+  queryAll(
+    query: string,
+    options?: Omit<SearchOptions, 'limit' | 'offset'> & PaginateOptions
+  ): AsyncGenerator<SearchResult, void, undefined>;
+}
+
+const REQUEST_FIELDS = ['query', 'filters', 'sort', 'limit', 'offset'];
+
+// ============================================
+// Query Builder
+// ============================================
+
+/**
+ * Chainable, immutable semantic search query
+ *
+ * @example
+ * ```typescript
+ * const recentWork = memory.searchBuilder('deployment')
+ *   .inFolder('/work')
+ *   .withLabels(['DevOps'])
+ *   .importanceAtLeast(6)
+ *   .since(new Date('2026-01-01'))
+ *   .limit(20);
+ *
+ * const page = await recentWork.execute();
+ *
+ * // Save and restore
+ * localStorage.setItem('saved', JSON.stringify(recentWork));
+ * const restored = memory.searchBuilder(JSON.parse(localStorage.getItem('saved')!));
+ *
+ * for await (const result of restored.iterate({ maxItems: 100 })) {
+ *   console.log(result.label, result.score);
+ * }
+ * ```
+ */
+export class QueryBuilder implements PromiseLike<QueryResponse> {
+  private readonly executor: QueryExecutor;
+  private readonly request: QueryRequest;
+  private readonly callOptions: CallOptions;
+
+  /**
+   * @param executor - Client that runs the query
+   * @param request - Starting request
+   * @param callOptions - Priority and abort signal used on execution
+   */
+  constructor(executor: QueryExecutor, request: QueryRequest, callOptions: CallOptions = {}) {
+    this.executor = executor;
+    this.request = { ...request, filters: request.filters && { ...request.filters } };
+    this.callOptions = callOptions;
+  }
+
+  /**
+   * Restore a builder from a saved query
+   *
+   * @param executor - Client that runs the query
+   * @param json - QueryRequest object or its JSON string
+   * @throws SekhaValidationError if the saved query is malformed
+   */
+  static fromJSON(executor: QueryExecutor, json: string | QueryRequest): QueryBuilder {
+    let parsed: unknown = json;
+    if (typeof json === 'string') {
+      try {
+        parsed = JSON.parse(json);
+      } catch (error: unknown) {
+        throw new SekhaValidationError('Invalid saved query', 'Saved query is not valid JSON', { cause: error });
+      }
+    }
+
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new SekhaValidationError('Invalid saved query', 'Saved query must be an object');
+    }
+
+    const unknownField = Object.keys(parsed).find(key => !REQUEST_FIELDS.includes(key));
+    if (unknownField) {
+      throw new SekhaValidationError(
+        'Invalid saved query',
+        `"${unknownField}" is not supported; use one of ${REQUEST_FIELDS.join(', ')}`
+      );
+    }
+
+    const builder = new QueryBuilder(executor, parsed as QueryRequest);
+    builder.toRequest();
+    return builder;
+  }
+
+  // ============================================
+  // Filters
+  // ============================================
+
+  /**
+   * Only match conversations in a folder
+   */
+  inFolder(folder: string): QueryBuilder {
+    return this.withFilters({ folder });
+  }
+
+  /**
+   * Match any of these labels (added to labels set earlier)
+   */
+  withLabels(labels: string[]): QueryBuilder {
+    return this.withFilters({ labels: [...(this.request.filters?.labels ?? []), ...labels] });
+  }
+
+  /**
+   * Only match conversations with a status
+   */
+  withStatus(status: ConversationStatus): QueryBuilder {
+    return this.withFilters({ status });
+  }
+
+  /**
+   * Minimum importance score (inclusive)
+   */
+  importanceAtLeast(score: number): QueryBuilder {
+    return this.withFilters({ importance_min: score });
+  }
+
+  /**
+   * Maximum importance score (inclusive)
+   */
+  importanceAtMost(score: number): QueryBuilder {
+    return this.withFilters({ importance_max: score });
+  }
+
+  /**
+   * Only match conversations from this date on
+   */
+  since(date: Date | string): QueryBuilder {
+    return this.withFilters({ date_from: toDateString(date) });
+  }
+
+  /**
+   * Only match conversations up to this date
+   */
+  until(date: Date | string): QueryBuilder {
+    return this.withFilters({ date_to: toDateString(date) });
+  }
+
+  /**
+   * Sort results instead of ranking by score
+   */
+  sortBy(field: SortParams['field'], order: SortParams['order'] = 'desc'): QueryBuilder {
+    return this.with({ sort: { field, order } });
+  }
+
+  // ============================================
+  // Pagination
+  // ============================================
+
+  /**
+   * Results per request (page size when iterating)
+   */
+  limit(limit: number): QueryBuilder {
+    return this.with({ limit });
+  }
+
+  /**
+   * Results to skip (ignored when iterating)
+   */
+  offset(offset: number): QueryBuilder {
+    return this.with({ offset });
+  }
+
+  /**
+   * Set priority and abort signal for execution (not serialized)
+   */
+  withOptions(options: CallOptions): QueryBuilder {
+    return new QueryBuilder(this.executor, this.request, { ...this.callOptions, ...options });
+  }
+
+  // ============================================
+  // Output
+  // ============================================
+
+  /**
+   * Build the validated request
+   *
+   * @throws SekhaValidationError for invalid filters, sorting or pagination
+   */
+  toRequest(): QueryRequest {
+    const { query, limit, offset } = this.request;
+
+    if (typeof query !== 'string') {
+      throw new SekhaValidationError('Invalid query', 'query must be a string');
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      throw new SekhaValidationError('Invalid query', `limit must be a positive integer, got ${limit}`);
+    }
+    if (offset !== undefined && (!Number.isInteger(offset) || offset < 0)) {
+      throw new SekhaValidationError('Invalid query', `offset must be a non-negative integer, got ${offset}`);
+    }
+
+    const request: QueryRequest = { query };
+    const filters = compactFilters(validateFilters(this.request.filters ?? {}));
+    if (filters) request.filters = filters;
+    if (this.request.sort) request.sort = { ...validateSort(this.request.sort) };
+    if (limit !== undefined) request.limit = limit;
+    if (offset !== undefined) request.offset = offset;
+    return request;
+  }
+
+  /**
+   * JSON form for saved searches (same as toRequest())
+   */
+  toJSON(): QueryRequest {
+    return this.toRequest();
+  }
+
+  /**
+   * Run the query once
+   *
+   * @param options - Priority and abort signal, overriding withOptions()
+   */
+  execute(options: CallOptions = {}): Promise<QueryResponse> {
+    try {
+      const { query, ...searchOptions } = this.toRequest();
+      return this.executor.query(query, { ...searchOptions, ...this.callOptions, ...options });
+    } catch (error: unknown) {
+      return Promise.reject(error);
+    }
+  }
+
+  /**
+   * Iterate over every result, paging automatically
+   *
+   * The builder's limit is the default page size; its offset is ignored.
+   *
+   * @param options - Page size, item cap, priority and abort signal
+   */
+  iterate(options: PaginateOptions = {}): AsyncGenerator<SearchResult, void, undefined> {
+    const { query, limit, offset: _offset, ...searchOptions } = this.toRequest();
+    return this.executor.queryAll(query, {
+      ...searchOptions,
+      ...this.callOptions,
+      pageSize: limit,
+      ...options,
+    });
+  }
+
+  /**
+   * Run the query when awaited
+   */
+  then<TResult1 = QueryResponse, TResult2 = never>(
+    onfulfilled?: ((value: QueryResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.execute().then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Run the query and handle failure
+   */
+  catch<TResult = never>(
+    onrejected?: ((reason: unknown) => TResult | PromiseLike<TResult>) | null
+  ): Promise<QueryResponse | TResult> {
+    return this.execute().catch(onrejected);
+  }
+
+  private with(changes: Partial<QueryRequest>): QueryBuilder {
+    return new QueryBuilder(this.executor, { ...this.request, ...changes }, this.callOptions);
+  }
+
+  private withFilters(changes: FilterParams): QueryBuilder {
+    return this.with({ filters: { ...this.request.filters, ...changes } });
+  }
+}
+
+/**
+ * Dates become ISO 8601 strings; strings pass through for validation
+ */
+function toDateString(date: Date | string): string {
+  if (date instanceof Date) {
+    return Number.isNaN(date.getTime()) ? String(date) : date.toISOString();
+  }
+  return date;
+}
@@ -0,0 +1,206 @@
+/**
+ * Client-side rate limiting for Sekha clients
+ *
+ * Token-bucket limiter that can be shared by several clients, with
+ * optional per-endpoint-class budgets (e.g. search vs writes) and
+ * adaptive tuning from the server's X-RateLimit-* / Retry-After
+ * response headers.
+ *
+ * @module @sekha/sdk/ratelimit
+ */
+
+import { parseRateLimitHeaders } from './retry';
+import { sleep } from './timers';
+
+// ============================================
+// Rate Limiter Types
+// ============================================
+
+/**
+ * Endpoint classes used by the built-in clients
+ *
+ * - `read`: GET requests and read-only MCP tools
+ * - `search`: semantic, full-text search and context assembly
+ * - `write`: mutations (store, update, delete, prune)
+ * - `llm`: bridge completions, embeddings and scoring
+ */
+export type EndpointClass = 'read' | 'search' | 'write' | 'llm';
+
+/**
+ * Budget for a single token bucket
+ */
+export interface RateLimitBudget {
+  /** Sustained request rate */
+  requestsPerMinute: number;
+  /** Bucket capacity, i.e. max burst (default: requestsPerMinute) */
+  burst?: number;
+}
+
+/**
+ * Rate limiter configuration
+ */
+export interface RateLimiterOptions extends Partial<RateLimitBudget> {
+  /**
+   * Separate budgets per endpoint class. Requests in a class without
+   * its own budget use the default bucket.
+   */
+  classes?: Partial<Record<EndpointClass | string, RateLimitBudget>>;
+  /** Tune buckets from server rate-limit headers (default: true) */
+  adaptive?: boolean;
+}
+
+// ============================================
+// Token Bucket
+// ============================================
+
+/**
+ * Single token bucket refilled continuously
+ */
+class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+  private blockedUntil = 0;
+  private readonly capacity: number;
+  private readonly refillPerMs: number;
+
+  constructor(budget: RateLimitBudget) {
+    this.capacity = budget.burst ?? budget.requestsPerMinute;
+    this.refillPerMs = budget.requestsPerMinute / 60000;
+    this.tokens = this.capacity;
+    this.lastRefill = Date.now();
+  }
+
+  /**
+   * Take a token if available
+   *
+   * @returns 0 when a token was taken, otherwise ms until one is
+   */
+  take(now: number): number {
+    this.refill(now);
+
+    if (this.blockedUntil > now) {
+      return this.blockedUntil - now;
+    }
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil((1 - this.tokens) / this.refillPerMs);
+  }
+
+  /**
+   * Cap available tokens to what the server reports as remaining
+   */
+  limitTo(remaining: number, now: number): void {
+    this.refill(now);
+    this.tokens = Math.min(this.tokens, remaining);
+  }
+
+  /**
+   * Refuse all requests until the given time
+   */
+  blockUntil(until: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, until);
+  }
+
+  private refill(now: number): void {
+    const elapsed = now - this.lastRefill;
+    if (elapsed > 0) {
+      this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerMs);
+      this.lastRefill = now;
+    }
+  }
+}
+
+// ============================================
+// Rate Limiter
+// ============================================
+
+/**
+ * Shareable token-bucket rate limiter
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({
+ *   requestsPerMinute: 600,
+ *   classes: {
+ *     search: { requestsPerMinute: 120, burst: 10 },
+ *     write: { requestsPerMinute: 60 }
+ *   }
+ * });
+ *
+ * const memory = new MemoryController({ baseURL, apiKey, rateLimiter: limiter });
+ * const mcp = new MCPClient({ baseURL, apiKey, rateLimiter: limiter });
+ * ```
+ */
+export class RateLimiter {
+  private readonly defaultBucket: TokenBucket;
+  private readonly classBuckets = new Map<string, TokenBucket>();
+  private readonly adaptive: boolean;
+
+  constructor(options: RateLimiterOptions = {}) {
+    this.defaultBucket = new TokenBucket({
+      requestsPerMinute: options.requestsPerMinute ?? 1000,
+      burst: options.burst,
+    });
+    this.adaptive = options.adaptive ?? true;
+
+    for (const [name, budget] of Object.entries(options.classes ?? {})) {
+      if (budget) {
+        this.classBuckets.set(name, new TokenBucket(budget));
+      }
+    }
+  }
+
+  /**
+   * Wait for a token in the given endpoint class
+   *
+   * @param endpointClass - Endpoint class (falls back to the default bucket)
+   * @param signal - Abort the wait
+   * @returns Time spent waiting (ms)
+   */
+  async acquire(endpointClass?: string, signal?: AbortSignal): Promise<number> {
+    const bucket = this.bucketFor(endpointClass);
+    let waited = 0;
+
+    for (;;) {
+      const wait = bucket.take(Date.now());
+      if (wait === 0) {
+        return waited;
+      }
+
+      await sleep(wait, signal, 'Rate limiter wait aborted');
+      waited += wait;
+    }
+  }
+
+  /**
+   * Adapt to rate-limit headers from a response
+   *
+   * Caps local tokens to the server's remaining count and pauses the
+   * bucket when the server reports an exhausted window or a 429.
+   */
+  observe(headers: Headers | undefined, status: number, endpointClass?: string): void {
+    if (!this.adaptive || !headers) {
+      return;
+    }
+
+    const now = Date.now();
+    const bucket = this.bucketFor(endpointClass);
+    const info = parseRateLimitHeaders(headers, now);
+
+    if (info.remaining !== undefined) {
+      bucket.limitTo(info.remaining, now);
+    }
+
+    if ((status === 429 || info.remaining === 0) && info.retryAfterMs !== undefined) {
+      bucket.blockUntil(now + info.retryAfterMs);
+    }
+  }
+
+  private bucketFor(endpointClass?: string): TokenBucket {
+    return (endpointClass && this.classBuckets.get(endpointClass)) || this.defaultBucket;
+  }
+}
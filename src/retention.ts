@@ -0,0 +1,358 @@
+/**
+ * Declarative retention policies
+ *
+ * A policy is a plain (JSON-serializable) object of rules. The engine
+ * evaluates it against pruning suggestions and conversation metadata,
+ * producing a plan that can be reviewed before it is applied with
+ * pruneExecute().
+ *
+ * @module @sekha/sdk/retention
+ */
+
+import { SekhaValidationError } from './errors';
+import { normalizeFolder, isWithinFolder } from './folders';
+import type { BulkOperationResult, CallOptions, MutationOptions } from './types';
+
+// ============================================
+// Retention Types
+// ============================================
+
+/**
+ * Retention rules
+ *
+ * Keep rules win over archive rules, and pinned conversations are
+ * always kept. Age is measured from the conversation's last access.
+ *
+ * @example
+ * ```typescript
+ * const policy: RetentionPolicy = {
+ *   name: 'default',
+ *   maxAgeDays: 90,
+ *   folderMaxAgeDays: { '/scratch': 7, '/legal': 3650 },
+ *   keepLabels: ['Decisions'],
+ *   minImportance: 8,
+ *   maxTokens: 2_000_000,
+ * };
+ * ```
+ */
+export interface RetentionPolicy {
+  /** Recorded in plans and audit entries */
+  name?: string;
+  /** Maximum age for conversations without a folder rule */
+  maxAgeDays?: number;
+  /** Maximum age per folder; applies to subfolders, the most specific folder wins */
+  folderMaxAgeDays?: Record<string, number>;
+  /** Labels that are never archived */
+  keepLabels?: string[];
+  /** Conversations at or above this importance (1-10) are never archived */
+  minImportance?: number;
+  /** Token budget for retained conversations; least important, oldest archived first */
+  maxTokens?: number;
+}
+
+/**
+ * Rule that decided a conversation's fate
+ */
+export type RetentionRule = 'pinned' | 'keepLabel' | 'minImportance' | 'folderMaxAge' | 'maxAge' | 'maxTokens' | 'none';
+
+/**
+ * Conversation as seen by the engine
+ */
+export interface RetentionCandidate {
+  conversationId: string;
+  label: string;
+  folder?: string;
+  /** ISO 8601 */
+  lastAccessed: string;
+  importance: number;
+  tokens: number;
+  /** Pinned conversations are never archived but count toward maxTokens */
+  pinned?: boolean;
+}
+
+/**
+ * Decision for one conversation
+ */
+export interface RetentionDecision extends RetentionCandidate {
+  action: 'archive' | 'keep';
+  rule: RetentionRule;
+  reason: string;
+  ageDays: number;
+}
+
+/**
+ * Reviewable retention plan
+ */
+export interface RetentionPlan {
+  policy: string;
+  /** ISO 8601 time the plan was evaluated at */
+  evaluatedAt: string;
+  archive: RetentionDecision[];
+  keep: RetentionDecision[];
+  /** Tokens freed by the archive list */
+  tokenSavings: number;
+  /** Tokens left in the kept conversations */
+  tokensRetained: number;
+}
+
+/**
+ * Options for planRetention()
+ */
+export interface RetentionPlanOptions extends CallOptions {
+  /** Evaluation time (default: now) */
+  now?: Date;
+  /** Concurrent metadata lookups for folder rules (default: 5) */
+  concurrency?: number;
+}
+
+/**
+ * Options for applyRetention()
+ */
+export interface RetentionApplyOptions extends Omit<MutationOptions, 'idempotencyKey'> {
+  /** Conversations per pruneExecute() call (default: 50) */
+  batchSize?: number;
+  /** Called for every archived conversation */
+  onAudit?: (entry: RetentionAuditEntry) => void;
+}
+
+/**
+ * Audit record for one archived conversation
+ */
+export interface RetentionAuditEntry {
+  conversationId: string;
+  label: string;
+  folder?: string;
+  policy: string;
+  rule: RetentionRule;
+  reason: string;
+  /** ISO 8601 */
+  archivedAt: string;
+  /** Index of the pruneExecute() batch */
+  batch: number;
+}
+
+/**
+ * Outcome of applyRetention()
+ */
+export interface RetentionResult extends BulkOperationResult {
+  audit: RetentionAuditEntry[];
+  /** Conversations not attempted because the signal aborted */
+  skipped: string[];
+}
+
+const POLICY_FIELDS = ['name', 'maxAgeDays', 'folderMaxAgeDays', 'keepLabels', 'minImportance', 'maxTokens'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Rough tokens per word, for conversations without a controller token estimate */
+const TOKENS_PER_WORD = 4 / 3;
+
+// ============================================
+// Policy Validation
+// ============================================
+
+/**
+ * Validate a policy object or JSON string
+ *
+ * @returns The policy with folder paths normalized
+ * @throws SekhaValidationError for unknown fields or invalid values
+ */
+export function parseRetentionPolicy(input: RetentionPolicy | string): RetentionPolicy {
+  let policy: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      policy = JSON.parse(input);
+    } catch {
+      throw new SekhaValidationError('Invalid retention policy', 'Policy JSON could not be parsed');
+    }
+  }
+
+  if (!policy || typeof policy !== 'object' || Array.isArray(policy)) {
+    throw new SekhaValidationError('Invalid retention policy', 'Policy must be an object');
+  }
+
+  const fields = policy as Record<string, unknown>;
+  for (const key of Object.keys(fields)) {
+    if (!POLICY_FIELDS.includes(key)) {
+      throw new SekhaValidationError(
+        'Invalid retention policy',
+        `"${key}" is not supported; use one of ${POLICY_FIELDS.join(', ')}`
+      );
+    }
+  }
+
+  const { name, maxAgeDays, folderMaxAgeDays, keepLabels, minImportance, maxTokens } = fields;
+
+  if (name !== undefined && typeof name !== 'string') {
+    throw new SekhaValidationError('Invalid retention policy', 'name must be a string');
+  }
+  assertNonNegative('maxAgeDays', maxAgeDays);
+  assertNonNegative('maxTokens', maxTokens);
+  if (minImportance !== undefined && !(typeof minImportance === 'number' && minImportance >= 1 && minImportance <= 10)) {
+    throw new SekhaValidationError('Invalid retention policy', 'minImportance must be between 1 and 10');
+  }
+  if (keepLabels !== undefined && !(Array.isArray(keepLabels) && keepLabels.every(label => typeof label === 'string'))) {
+    throw new SekhaValidationError('Invalid retention policy', 'keepLabels must be an array of strings');
+  }
+
+  let folders: Record<string, number> | undefined;
+  if (folderMaxAgeDays !== undefined) {
+    if (!folderMaxAgeDays || typeof folderMaxAgeDays !== 'object' || Array.isArray(folderMaxAgeDays)) {
+      throw new SekhaValidationError('Invalid retention policy', 'folderMaxAgeDays must map folders to days');
+    }
+    folders = {};
+    for (const [folder, days] of Object.entries(folderMaxAgeDays)) {
+      assertNonNegative(`folderMaxAgeDays["${folder}"]`, days);
+      folders[normalizeFolder(folder)] = days as number;
+    }
+  }
+
+  if (maxAgeDays === undefined && !Object.keys(folders ?? {}).length && maxTokens === undefined) {
+    throw new SekhaValidationError(
+      'Invalid retention policy',
+      'Policy needs at least one of maxAgeDays, folderMaxAgeDays or maxTokens'
+    );
+  }
+
+  return {
+    name: name as string | undefined,
+    maxAgeDays: maxAgeDays as number | undefined,
+    folderMaxAgeDays: folders,
+    keepLabels: keepLabels as string[] | undefined,
+    minImportance: minImportance as number | undefined,
+    maxTokens: maxTokens as number | undefined,
+  };
+}
+
+/**
+ * Smallest age any rule archives at, or 0 when the token budget needs every conversation
+ */
+export function retentionThresholdDays(policy: RetentionPolicy): number {
+  if (policy.maxTokens !== undefined) {
+    return 0;
+  }
+  const limits = [policy.maxAgeDays, ...Object.values(policy.folderMaxAgeDays ?? {})]
+    .filter((days): days is number => days !== undefined);
+  return Math.min(...limits);
+}
+
+/**
+ * Token estimate from a conversation's word count
+ */
+export function estimateTokens(wordCount = 0): number {
+  return Math.ceil(wordCount * TOKENS_PER_WORD);
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Evaluate a validated policy against candidate conversations
+ *
+ * @param policy - Policy from parseRetentionPolicy()
+ * @param candidates - Conversations that may be archived
+ * @param now - Evaluation time (default: now)
+ */
+export function evaluateRetention(
+  policy: RetentionPolicy,
+  candidates: RetentionCandidate[],
+  now: Date = new Date()
+): RetentionPlan {
+  const keepLabels = new Set(policy.keepLabels ?? []);
+  const decisions = candidates.map(candidate => decide(policy, keepLabels, candidate, now));
+
+  if (policy.maxTokens !== undefined) {
+    let retained = decisions
+      .filter(decision => decision.action === 'keep')
+      .reduce((sum, decision) => sum + decision.tokens, 0);
+
+    // Least important first, then oldest
+    const evictable = decisions
+      .filter(decision => decision.rule === 'none')
+      .sort((a, b) => a.importance - b.importance || b.ageDays - a.ageDays);
+
+    for (const decision of evictable) {
+      if (retained <= policy.maxTokens) {
+        break;
+      }
+      retained -= decision.tokens;
+      decision.action = 'archive';
+      decision.rule = 'maxTokens';
+      decision.reason = `Retained conversations exceed the ${policy.maxTokens} token budget`;
+    }
+  }
+
+  const archive = decisions.filter(decision => decision.action === 'archive');
+  const keep = decisions.filter(decision => decision.action === 'keep');
+
+  return {
+    policy: policy.name ?? 'unnamed',
+    evaluatedAt: now.toISOString(),
+    archive,
+    keep,
+    tokenSavings: archive.reduce((sum, decision) => sum + decision.tokens, 0),
+    tokensRetained: keep.reduce((sum, decision) => sum + decision.tokens, 0),
+  };
+}
+
+function decide(
+  policy: RetentionPolicy,
+  keepLabels: Set<string>,
+  candidate: RetentionCandidate,
+  now: Date
+): RetentionDecision {
+  const ageDays = Math.floor((now.getTime() - new Date(candidate.lastAccessed).getTime()) / DAY_MS);
+  const keep = (rule: RetentionRule, reason: string): RetentionDecision =>
+    ({ ...candidate, ageDays, action: 'keep', rule, reason });
+
+  if (candidate.pinned) {
+    return keep('pinned', 'Pinned conversations are never pruned');
+  }
+  if (keepLabels.has(candidate.label)) {
+    return keep('keepLabel', `Label "${candidate.label}" is kept forever`);
+  }
+  if (policy.minImportance !== undefined && candidate.importance >= policy.minImportance) {
+    return keep('minImportance', `Importance ${candidate.importance} is at least ${policy.minImportance}`);
+  }
+
+  const folderRule = folderRuleFor(policy, candidate.folder);
+  const limit = folderRule ? folderRule.days : policy.maxAgeDays;
+
+  if (limit !== undefined && ageDays > limit) {
+    return {
+      ...candidate,
+      ageDays,
+      action: 'archive',
+      rule: folderRule ? 'folderMaxAge' : 'maxAge',
+      reason: folderRule
+        ? `Not accessed for ${ageDays} days; ${folderRule.folder} keeps ${limit} days`
+        : `Not accessed for ${ageDays} days; limit is ${limit} days`,
+    };
+  }
+
+  return keep('none', 'Within retention limits');
+}
+
+/**
+ * Most specific folder rule covering a folder
+ */
+function folderRuleFor(policy: RetentionPolicy, folder?: string): { folder: string; days: number } | undefined {
+  if (folder === undefined) {
+    return undefined;
+  }
+
+  let match: { folder: string; days: number } | undefined;
+  for (const [rule, days] of Object.entries(policy.folderMaxAgeDays ?? {})) {
+    if (isWithinFolder(folder, rule) && (!match || rule.length > match.folder.length)) {
+      match = { folder: rule, days };
+    }
+  }
+  return match;
+}
+
+function assertNonNegative(field: string, value: unknown): void {
+  if (value !== undefined && !(typeof value === 'number' && Number.isFinite(value) && value >= 0)) {
+    throw new SekhaValidationError('Invalid retention policy', `${field} must be a non-negative number`);
+  }
+}
@@ -0,0 +1,171 @@
+/**
+ * Retry policy for Sekha clients
+ *
+ * Decides which failures are retried, how long to wait between
+ * attempts (jittered exponential backoff or the server's
+ * Retry-After), and how much total time retries may consume.
+ *
+ * @module @sekha/sdk/retry
+ */
+
+import { SekhaError, SekhaAPIError, SekhaConnectionError, RateLimitInfo } from './errors';
+import type { HttpMethod } from './transport';
+
+// ============================================
+// Retry Types
+// ============================================
+
+/**
+ * Jitter strategy applied to the exponential backoff delay
+ *
+ * - `full`: random delay between 0 and the backoff delay
+ * - `equal`: half the backoff delay plus a random half
+ * - `none`: exact backoff delay
+ */
+export type JitterStrategy = 'full' | 'equal' | 'none';
+
+/**
+ * Retry policy configuration
+ */
+export interface RetryPolicy {
+  /** HTTP statuses that may be retried */
+  retryableStatuses: number[];
+  /** Methods retried by default; other methods need `idempotent: true` */
+  retryableMethods: HttpMethod[];
+  /** Retry network failures (connection refused, reset, DNS) */
+  retryNetworkErrors: boolean;
+  /** Wait for the server's Retry-After header when present */
+  respectRetryAfter: boolean;
+  /** Give up instead of waiting longer than this for Retry-After (ms) */
+  maxRetryAfter: number;
+  /** First backoff delay (ms) */
+  baseDelay: number;
+  /** Backoff delay cap (ms) */
+  maxDelay: number;
+  /** Backoff growth factor */
+  factor: number;
+  /** Jitter strategy */
+  jitter: JitterStrategy;
+  /** Total time budget for a call including all retries (ms) */
+  budget: number;
+}
+
+/**
+ * Default retry policy
+ *
+ * Retries transient statuses on idempotent methods with full-jitter
+ * exponential backoff, honoring Retry-After.
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  retryableStatuses: [408, 425, 429, 500, 502, 503, 504],
+  retryableMethods: ['GET', 'PUT', 'DELETE'],
+  retryNetworkErrors: true,
+  respectRetryAfter: true,
+  maxRetryAfter: 60000,
+  baseDelay: 500,
+  maxDelay: 10000,
+  factor: 2,
+  jitter: 'full',
+  budget: 60000,
+};
+
+/**
+ * Merge a partial policy over the defaults
+ */
+export function resolveRetryPolicy(policy?: Partial<RetryPolicy>): RetryPolicy {
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+// ============================================
+// Retry Helpers
+// ============================================
+
+/**
+ * Check if an error may be retried under the policy
+ */
+export function isRetryableError(error: unknown, policy: RetryPolicy): boolean {
+  if (error instanceof SekhaAPIError) {
+    return policy.retryableStatuses.includes(error.statusCode);
+  }
+
+  if (error instanceof SekhaConnectionError || !(error instanceof SekhaError)) {
+    return policy.retryNetworkErrors;
+  }
+
+  // Auth, validation and not-found errors are permanent
+  return false;
+}
+
+/**
+ * Jittered exponential backoff delay for a retry attempt (0-based)
+ */
+export function computeBackoff(
+  attempt: number,
+  policy: RetryPolicy,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(
+    policy.baseDelay * Math.pow(policy.factor, attempt),
+    policy.maxDelay
+  );
+
+  switch (policy.jitter) {
+    case 'full':
+      return Math.floor(random() * delay);
+    case 'equal':
+      return Math.floor(delay / 2 + random() * (delay / 2));
+    default:
+      return delay;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP-date) into ms
+ *
+ * @returns Delay in ms, or undefined when absent or unparseable
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.ceil(parseFloat(trimmed) * 1000);
+  }
+
+  const date = Date.parse(trimmed);
+  if (isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, date - now);
+}
+
+/**
+ * Parse rate limit headers (Retry-After, X-RateLimit-* or RateLimit-*)
+ *
+ * When Retry-After is absent, the reset header is used as the wait:
+ * values above 1e9 are treated as epoch seconds, others as delta-seconds.
+ */
+export function parseRateLimitHeaders(headers: Headers | undefined, now: number = Date.now()): RateLimitInfo {
+  const get = (name: string): string | null =>
+    headers?.get(`X-RateLimit-${name}`) ?? headers?.get(`RateLimit-${name}`) ?? null;
+  const toNumber = (value: string | null): number | undefined => {
+    if (value === null || value.trim() === '') return undefined;
+    const parsed = Number(value);
+    return isNaN(parsed) ? undefined : parsed;
+  };
+
+  let retryAfterMs = parseRetryAfter(headers?.get('Retry-After'), now);
+  const reset = toNumber(get('Reset'));
+  if (retryAfterMs === undefined && reset !== undefined) {
+    retryAfterMs = reset > 1e9 ? Math.max(0, reset * 1000 - now) : reset * 1000;
+  }
+
+  return {
+    retryAfterMs,
+    limit: toNumber(get('Limit')),
+    remaining: toNumber(get('Remaining')),
+  };
+}
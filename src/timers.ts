@@ -0,0 +1,33 @@
+/**
+ * Abortable timers shared by retries, the rate limiter and job polling
+ *
+ * @module @sekha/sdk/timers
+ */
+
+import { SekhaAbortError } from './errors';
+
+/**
+ * Sleep that rejects when the signal aborts
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Caller's abort signal
+ * @param reason - SekhaAbortError message on abort
+ */
+export function sleep(ms: number, signal: AbortSignal | undefined, reason: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new SekhaAbortError(reason));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(new SekhaAbortError(reason));
+    };
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
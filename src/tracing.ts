@@ -0,0 +1,324 @@
+/**
+ * Tracing hooks for Sekha clients
+ *
+ * A minimal tracer interface, structurally compatible with
+ * `@opentelemetry/api`, so spans can be exported without the SDK
+ * depending on OpenTelemetry. Every request gets a client span and
+ * carries a W3C `traceparent` header to the controller and bridge.
+ *
+ * @module @sekha/sdk/tracing
+ */
+
+import { SekhaAPIError } from './errors';
+import type { TransportRequest } from './transport';
+
+// ============================================
+// Tracer Types
+// ============================================
+
+/**
+ * Span attribute value
+ */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * Span attributes
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Span identity used for context propagation
+ */
+export interface SpanContext {
+  /** 32 hex characters */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+  /** W3C trace flags (1 = sampled) */
+  traceFlags: number;
+}
+
+/**
+ * Span status codes (same values as OpenTelemetry's SpanStatusCode)
+ */
+export const SpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * Span kind for outgoing requests (OpenTelemetry's SpanKind.CLIENT)
+ */
+const SPAN_KIND_CLIENT = 2;
+
+/**
+ * Minimal span interface
+ */
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+/**
+ * Options passed when starting a span
+ */
+export interface SpanOptions {
+  kind?: number;
+  attributes?: SpanAttributes;
+}
+
+/**
+ * Minimal tracer interface
+ *
+ * @example
+ * ```typescript
+ * import { trace } from '@opentelemetry/api';
+ *
+ * const sekha = new SekhaClient({
+ *   controllerURL, bridgeURL, apiKey,
+ *   tracer: trace.getTracer('sekha-sdk')
+ * });
+ * ```
+ */
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+}
+
+/**
+ * Token usage recorded on bridge spans
+ */
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
+
+// ============================================
+// Request Tracing
+// ============================================
+
+/**
+ * Run a request inside a client span
+ *
+ * Adds the `traceparent` header, counts retries reported by the
+ * transport and records duration and errors. Without a tracer the
+ * request runs untouched.
+ *
+ * Streams call `keepOpen()` to end the span themselves once the body
+ * is done, passing the error that stopped it, if any.
+ *
+ * @param tracer - Tracer, if configured
+ * @param service - Service name used in the span name ('controller', 'mcp', 'bridge')
+ * @param endpoint - Request path
+ * @param request - Request to send
+ * @param execute - Sends the (traced) request and reads the result
+ */
+export async function traceRequest<T>(
+  tracer: Tracer | undefined,
+  service: string,
+  endpoint: string,
+  request: TransportRequest,
+  execute: (request: TransportRequest, span?: Span, keepOpen?: () => (error?: unknown) => void) => Promise<T>
+): Promise<T> {
+  if (!tracer) {
+    return execute(request);
+  }
+
+  const route = routeOf(endpoint);
+  const span = tracer.startSpan(`${service} ${request.method} ${route}`, {
+    kind: SPAN_KIND_CLIENT,
+    attributes: {
+      'sekha.service': service,
+      'sekha.endpoint': route,
+      'http.request.method': request.method,
+      'url.full': request.url,
+      'sekha.retry_count': 0,
+    },
+  });
+
+  const conversationId = conversationIdOf(endpoint, request.body);
+  if (conversationId) {
+    span.setAttribute('sekha.conversation_id', conversationId);
+  }
+
+  const headers = { ...request.headers };
+  const traceparent = formatTraceparent(span.spanContext());
+  if (traceparent) {
+    headers.traceparent = traceparent;
+  }
+
+  const startedAt = Date.now();
+  let held = false;
+
+  const end = (error?: unknown) => {
+    if (error !== undefined) {
+      recordError(span, error);
+    }
+    span.setAttribute('sekha.duration_ms', Date.now() - startedAt);
+    span.end();
+  };
+
+  try {
+    const result = await execute(
+      {
+        ...request,
+        headers,
+        onRetry: (attempt, delayMs, error) => {
+          span.setAttribute('sekha.retry_count', attempt);
+          request.onRetry?.(attempt, delayMs, error);
+        },
+      },
+      span,
+      () => {
+        held = true;
+        return end;
+      }
+    );
+    if (!held) {
+      end();
+    }
+    return result;
+  } catch (error: unknown) {
+    end(error);
+    throw error;
+  }
+}
+
+function recordError(span: Span, error: unknown): void {
+  const exception = error instanceof Error ? error : new Error(String(error));
+  span.recordException(exception);
+  span.setAttribute('error.type', exception.name);
+  if (error instanceof SekhaAPIError) {
+    span.setAttribute('http.response.status_code', error.statusCode);
+  }
+  span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+}
+
+/**
+ * Record response details on a span
+ *
+ * Picks up `conversation_id` (top level or MCP `data`) and
+ * completion token usage when present.
+ */
+export function recordResponse(span: Span | undefined, status: number, data: unknown): void {
+  if (!span) {
+    return;
+  }
+
+  span.setAttribute('http.response.status_code', status);
+
+  if (!data || typeof data !== 'object') {
+    return;
+  }
+
+  const record = data as Record<string, unknown>;
+  const nested = record.data && typeof record.data === 'object'
+    ? record.data as Record<string, unknown>
+    : undefined;
+  const conversationId = record.conversation_id ?? nested?.conversation_id;
+  if (typeof conversationId === 'string') {
+    span.setAttribute('sekha.conversation_id', conversationId);
+  }
+
+  if (record.usage && typeof record.usage === 'object') {
+    recordUsage(span, record.usage as TokenUsage);
+  }
+}
+
+/**
+ * Record token usage on a span
+ */
+export function recordUsage(span: Span | undefined, usage: TokenUsage): void {
+  if (!span) {
+    return;
+  }
+  if (usage.prompt_tokens !== undefined) {
+    span.setAttribute('gen_ai.usage.input_tokens', usage.prompt_tokens);
+  }
+  if (usage.completion_tokens !== undefined) {
+    span.setAttribute('gen_ai.usage.output_tokens', usage.completion_tokens);
+  }
+  if (usage.total_tokens !== undefined) {
+    span.setAttribute('sekha.usage.total_tokens', usage.total_tokens);
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const INVALID_TRACE_ID = /^0+$/;
+
+/**
+ * Format a W3C traceparent header value
+ *
+ * @returns Header value, or undefined for an invalid (non-recording) context
+ */
+export function formatTraceparent(context: SpanContext): string | undefined {
+  const { traceId, spanId, traceFlags } = context;
+
+  if (
+    !/^[0-9a-f]{32}$/.test(traceId) || INVALID_TRACE_ID.test(traceId) ||
+    !/^[0-9a-f]{16}$/.test(spanId) || INVALID_TRACE_ID.test(spanId)
+  ) {
+    return undefined;
+  }
+
+  return `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}`;
+}
+
+/**
+ * Fixed routes under /conversations/ that are not conversation IDs
+ */
+const CONVERSATION_SUBROUTES = new Set(['count', 'search']);
+
+/**
+ * Conversation ID segment of a /conversations/ path, if any
+ */
+function conversationSegment(endpoint: string): string | undefined {
+  const match = endpoint.split('?')[0].match(/\/conversations\/([^/]+)/);
+  return match && !CONVERSATION_SUBROUTES.has(match[1]) ? match[1] : undefined;
+}
+
+/**
+ * Low-cardinality route for span names and metric labels
+ * (IDs replaced, query dropped)
+ */
+export function routeOf(endpoint: string): string {
+  const path = endpoint.split('?')[0];
+  return conversationSegment(path) === undefined
+    ? path
+    : path.replace(/\/conversations\/[^/]+/, '/conversations/{id}');
+}
+
+/**
+ * Conversation ID from the request path or JSON body, if any
+ */
+function conversationIdOf(endpoint: string, body?: string): string | undefined {
+  const segment = conversationSegment(endpoint);
+  if (segment !== undefined) {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      // Malformed escape; record the raw segment rather than fail the request
+      return segment;
+    }
+  }
+
+  if (body?.includes('conversation_id')) {
+    try {
+      const parsed = JSON.parse(body) as Record<string, unknown>;
+      if (typeof parsed.conversation_id === 'string') {
+        return parsed.conversation_id;
+      }
+    } catch {
+      // Not JSON; nothing to record
+    }
+  }
+
+  return undefined;
+}
@@ -0,0 +1,469 @@
+/**
+ * HTTP Transport for Sekha clients
+ *
+ * Shared fetch, timeout, retry and error-mapping logic used by
+ * MemoryController, MCPClient and BridgeClient. Supply a custom
+ * `fetch` (undici, node-fetch, Bun, Workers) or a whole custom
+ * Transport to run the SDK anywhere without patching globals.
+ *
+ * @module @sekha/sdk/transport
+ */
+
+import {
+  SekhaError,
+  SekhaNotFoundError,
+  SekhaValidationError,
+  SekhaAPIError,
+  SekhaAuthError,
+  SekhaConnectionError,
+  SekhaTimeoutError,
+  SekhaAbortError,
+  SekhaRateLimitError,
+  SekhaServiceUnavailableError,
+  SekhaErrorOptions,
+} from './errors';
+import {
+  RetryPolicy,
+  resolveRetryPolicy,
+  isRetryableError,
+  computeBackoff,
+  parseRetryAfter,
+  parseRateLimitHeaders,
+} from './retry';
+import type { RateLimiter } from './ratelimit';
+import type { RequestPriority } from './concurrency';
+import { Logger, createLogger } from './logger';
+import { sleep } from './timers';
+
+// ============================================
+// Transport Types
+// ============================================
+
+/**
+ * Minimal fetch signature required by the SDK
+ */
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+/**
+ * HTTP methods used by Sekha APIs
+ */
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+
+/**
+ * Single HTTP request issued by a client
+ */
+export interface TransportRequest {
+  method: HttpMethod;
+  /** Absolute request URL */
+  url: string;
+  headers: Record<string, string>;
+  /** Serialized request body */
+  body?: string;
+  /** Caller-provided cancellation signal */
+  signal?: AbortSignal;
+  /** Per-request override of the transport's maxRetries */
+  maxRetries?: number;
+  /**
+   * Mark the request safe to retry regardless of method
+   * (e.g. read-only POST searches). Defaults to the policy's
+   * retryableMethods check.
+   */
+  idempotent?: boolean;
+  /** Rate limiter bucket for this request (e.g. 'search', 'write') */
+  endpointClass?: string;
+  /** Queue priority when the client limits concurrency */
+  priority?: RequestPriority;
+  /** Called before each retry with the retry number (1-based), delay and cause */
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+  /** Called after waiting on the rate limiter, with the wait in ms */
+  onRateLimitWait?: (waitMs: number) => void;
+}
+
+/**
+ * Pluggable transport used by all Sekha clients
+ *
+ * Implementations resolve with a successful (2xx) Response and
+ * reject with a SekhaError for everything else.
+ */
+export interface Transport {
+  send(request: TransportRequest): Promise<Response>;
+}
+
+/**
+ * Context used when mapping a failed response to a SekhaError
+ */
+export interface ErrorContext {
+  /** Service name used to prefix messages (e.g. 'MCP', 'Bridge') */
+  service?: string;
+  method?: string;
+  url?: string;
+}
+
+/**
+ * HttpTransport configuration
+ */
+export interface HttpTransportOptions {
+  /** fetch implementation (default: globalThis.fetch at call time) */
+  fetch?: FetchLike;
+  /** Per-attempt timeout in ms (default: 30000) */
+  timeout?: number;
+  /** Max retry attempts (default: 3) */
+  maxRetries?: number;
+  /** Retry policy overrides (statuses, methods, backoff, budget) */
+  retry?: Partial<RetryPolicy>;
+  /** Service name used to prefix error messages (e.g. 'MCP', 'Bridge') */
+  service?: string;
+  /** Rate limiter consulted before every attempt, retries included */
+  rateLimiter?: RateLimiter;
+  /** Logger for request lifecycle, retries and limiter waits (use createLogger to redact) */
+  logger?: Logger;
+}
+
+// ============================================
+// HTTP Transport
+// ============================================
+
+/**
+ * Default fetch-based transport
+ *
+ * @example
+ * ```typescript
+ * import { fetch } from 'undici';
+ *
+ * const memory = new MemoryController({
+ *   baseURL: 'http://localhost:8080',
+ *   apiKey: 'sk-...',
+ *   fetch
+ * });
+ *
+ * // Or share one transport explicitly
+ * const transport = new HttpTransport({ fetch, timeout: 10000 });
+ * const mcp = new MCPClient({ baseURL, apiKey, transport });
+ * ```
+ */
+export class HttpTransport implements Transport {
+  private readonly options: Required<Omit<HttpTransportOptions, 'fetch' | 'service' | 'retry' | 'rateLimiter'>> &
+    Pick<HttpTransportOptions, 'fetch' | 'service' | 'rateLimiter'>;
+  private readonly policy: RetryPolicy;
+
+  constructor(options: HttpTransportOptions = {}) {
+    this.options = {
+      fetch: options.fetch,
+      timeout: options.timeout ?? 30000,
+      maxRetries: options.maxRetries ?? 3,
+      service: options.service,
+      rateLimiter: options.rateLimiter,
+      logger: options.logger ?? createLogger(),
+    };
+    this.policy = resolveRetryPolicy(options.retry);
+  }
+
+  /**
+   * Send request with timeout, retry and error mapping
+   */
+  async send(request: TransportRequest): Promise<Response> {
+    const maxRetries = request.maxRetries ?? this.options.maxRetries;
+    const canRetry = request.idempotent ?? this.policy.retryableMethods.includes(request.method);
+    const startedAt = Date.now();
+    const { logger } = this.options;
+    const context = { service: this.options.service, method: request.method, url: request.url };
+
+    logger.debug('Request started', { ...context, headers: request.headers });
+
+    for (let attempt = 0; ; attempt++) {
+      let retryAfterMs: number | undefined;
+
+      const waitMs = await this.options.rateLimiter?.acquire(request.endpointClass, request.signal);
+      if (waitMs) {
+        logger.debug('Rate limiter wait', { ...context, endpointClass: request.endpointClass, waitMs });
+        request.onRateLimitWait?.(waitMs);
+      }
+
+      try {
+        const response = await this.attempt(request);
+        this.options.rateLimiter?.observe(response.headers, response.status, request.endpointClass);
+        if (response.ok) {
+          logger.debug('Request completed', {
+            ...context,
+            status: response.status,
+            attempts: attempt + 1,
+            durationMs: Date.now() - startedAt,
+          });
+          return response;
+        }
+
+        retryAfterMs = response.status === 429
+          ? parseRateLimitHeaders(response.headers).retryAfterMs
+          : parseRetryAfter(response.headers?.get('Retry-After'));
+        await handleErrorResponse(response, {
+          service: this.options.service,
+          method: request.method,
+          url: request.url,
+        });
+      } catch (error: unknown) {
+        let failure: unknown = error;
+        const aborted = () => new SekhaAbortError(`${this.prefix('Request')} aborted`, {
+          cause: error,
+          method: request.method,
+          url: request.url,
+        });
+
+        // Timeouts and cancellations are final
+        if (request.signal?.aborted) {
+          failure = aborted();
+        } else if (error instanceof Error && error.name === 'AbortError') {
+          failure = new SekhaTimeoutError(
+            `${this.prefix('Request')} timed out after ${this.options.timeout}ms`,
+            this.options.timeout,
+            { cause: error, method: request.method, url: request.url }
+          );
+        } else {
+          const delay = canRetry && attempt < maxRetries && isRetryableError(error, this.policy)
+            ? this.retryDelay(attempt, retryAfterMs)
+            : undefined;
+
+          if (delay !== undefined && Date.now() - startedAt + delay <= this.policy.budget) {
+            logger.info('Retrying request', { ...context, retry: attempt + 1, delayMs: delay, error });
+            request.onRetry?.(attempt + 1, delay, error);
+            try {
+              await sleep(delay, request.signal, 'Retry wait aborted');
+              continue;
+            } catch {
+              failure = aborted();
+            }
+          } else if (!(error instanceof SekhaError)) {
+            failure = new SekhaConnectionError(
+              `${this.prefix('Request')} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+              { cause: error, method: request.method, url: request.url }
+            );
+          }
+        }
+
+        logger.warn('Request failed', {
+          ...context,
+          attempts: attempt + 1,
+          durationMs: Date.now() - startedAt,
+          error: failure,
+        });
+        throw failure;
+      }
+    }
+  }
+
+  /**
+   * Delay before the next attempt, or undefined to stop retrying
+   */
+  private retryDelay(attempt: number, retryAfterMs?: number): number | undefined {
+    if (retryAfterMs !== undefined && this.policy.respectRetryAfter) {
+      return retryAfterMs <= this.policy.maxRetryAfter ? retryAfterMs : undefined;
+    }
+    return computeBackoff(attempt, this.policy);
+  }
+
+  /**
+   * Single fetch attempt with its own timeout
+   */
+  private async attempt(request: TransportRequest): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.options.timeout);
+
+    const merged = request.signal ? mergeSignals([controller.signal, request.signal]) : undefined;
+    const signal = merged ? merged.signal : controller.signal;
+
+    const fetchImpl: FetchLike = this.options.fetch ?? globalThis.fetch;
+
+    try {
+      const response = await fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal,
+      });
+      // The caller's signal must still reach fetch while the body streams
+      return merged ? onBodyDone(response, merged.dispose) : response;
+    } catch (error: unknown) {
+      merged?.dispose();
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private prefix(noun: string): string {
+    return this.options.service ? `${this.options.service} ${noun.toLowerCase()}` : noun;
+  }
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Map a non-2xx response to the matching SekhaError
+ */
+export async function handleErrorResponse(response: Response, context: ErrorContext = {}): Promise<never> {
+  let errorData: Record<string, unknown>;
+
+  try {
+    const text = await response.text();
+    errorData = text ? JSON.parse(text) : { error: 'Unknown error' };
+  } catch {
+    errorData = { error: 'Failed to parse error response' };
+  }
+
+  const message = String(errorData.error || errorData.message || errorData.detail || 'Unknown error');
+  const body = JSON.stringify(errorData);
+  const { service } = context;
+  const options: SekhaErrorOptions = {
+    requestId: response.headers?.get('X-Request-ID') ?? undefined,
+    method: context.method,
+    url: context.url,
+  };
+
+  switch (response.status) {
+    case 400:
+      throw new SekhaValidationError(message, body, options);
+
+    case 401:
+    case 403:
+      throw new SekhaAuthError(
+        service
+          ? `${service} authentication failed. Check your API key.`
+          : 'Authentication failed. Check your API key.',
+        options
+      );
+
+    case 404:
+      throw new SekhaNotFoundError(message, options);
+
+    case 429:
+      throw new SekhaRateLimitError(
+        'Rate limit exceeded. Please slow down.',
+        body,
+        parseRateLimitHeaders(response.headers),
+        options
+      );
+
+    case 503:
+      throw new SekhaServiceUnavailableError(
+        `${service ?? 'Service'} unavailable: ${message}`,
+        body,
+        parseRetryAfter(response.headers?.get('Retry-After')),
+        options
+      );
+
+    default:
+      throw new SekhaAPIError(message, response.status, body, options);
+  }
+}
+
+/**
+ * Generate a random idempotency key (UUID v4)
+ */
+export function generateIdempotencyKey(): string {
+  if (typeof globalThis.crypto?.randomUUID === 'function') {
+    return globalThis.crypto.randomUUID();
+  }
+
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, char => {
+    const random = (Math.random() * 16) | 0;
+    return (char === 'x' ? random : (random & 0x3) | 0x8).toString(16);
+  });
+}
+
+/**
+ * Parse JSON response body (empty and 204 responses become {})
+ *
+ * @param logger - Receives a warning with the raw body on parse failure
+ */
+export async function readJSON<T>(response: Response, logger?: Logger): Promise<T> {
+  if (response.status === 204) {
+    return {} as T;
+  }
+
+  const text = await response.text();
+  if (!text) {
+    return {} as T;
+  }
+
+  try {
+    return JSON.parse(text);
+  } catch (error: unknown) {
+    logger?.warn('Failed to parse response body', { status: response.status, raw: text, error });
+    throw new SekhaAPIError('Failed to parse response body', response.status, text);
+  }
+}
+
+/**
+ * Call `done` once a response body has been read to the end, has
+ * failed or has been cancelled
+ *
+ * Returns a Response with the same status and headers whose body
+ * reports completion. Responses without a body stream call `done`
+ * straight away.
+ */
+export function onBodyDone(response: Response, done: () => void): Response {
+  if (!response.body) {
+    done();
+    return response;
+  }
+
+  const reader = response.body.getReader();
+  let settled = false;
+  const settle = () => {
+    if (!settled) {
+      settled = true;
+      done();
+    }
+  };
+
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const result = await reader.read();
+        if (result.done) {
+          settle();
+          controller.close();
+        } else {
+          controller.enqueue(result.value);
+        }
+      } catch (error: unknown) {
+        settle();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      settle();
+      await reader.cancel(reason);
+    },
+  }, { highWaterMark: 0 });
+
+  return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+}
+
+/**
+ * Merge multiple AbortSignals
+ *
+ * `dispose()` removes the listeners added to the source signals, so
+ * a long-lived caller signal does not collect one per attempt. The
+ * transport calls it once the response body is done.
+ */
+function mergeSignals(signals: AbortSignal[]): { signal: AbortSignal; dispose: () => void } {
+  const controller = new AbortController();
+  const abort = () => controller.abort();
+  const dispose = () => {
+    for (const signal of signals) {
+      signal.removeEventListener('abort', abort);
+    }
+  };
+
+  for (const signal of signals) {
+    if (signal.aborted) {
+      controller.abort();
+      break;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+  }
+
+  return { signal: controller.signal, dispose };
+}
@@ -7,6 +7,16 @@
  * @module @sekha/sdk/types
  */
 
+import type { FetchLike, Transport } from './transport';
+import type { Middleware } from './middleware';
+import type { RetryPolicy } from './retry';
+import type { CircuitBreaker, CircuitBreakerOptions } from './circuit';
+import type { RateLimiter } from './ratelimit';
+import type { ConcurrencyLimiter, RequestPriority } from './concurrency';
+import type { Tracer } from './tracing';
+import type { Logger, LogLevel } from './logger';
+import type { MetricsRegistry } from './metrics';
+
 // ============================================
 // CORE MODELS
 // ============================================
@@ -82,7 +92,34 @@ export interface MemoryConfig {
   defaultLabel?: string;
   timeout?: number;
   maxRetries?: number;
+  /** Requests per minute for the default rate limiter (default: 1000) */
   rateLimit?: number;
+  /** Shared rate limiter (overrides rateLimit) */
+  rateLimiter?: RateLimiter;
+  /** Custom transport (overrides fetch, timeout and maxRetries handling) */
+  transport?: Transport;
+  /** Custom fetch implementation for the default transport */
+  fetch?: FetchLike;
+  /** Middleware run around every request */
+  middleware?: Middleware[];
+  /** Retry policy overrides */
+  retry?: Partial<RetryPolicy>;
+  /** Auto-generate Idempotency-Key headers for mutating requests (default: true) */
+  idempotencyKeys?: boolean;
+  /** Circuit breaker instance or options (disabled by default) */
+  circuitBreaker?: CircuitBreaker | CircuitBreakerOptions | boolean;
+  /** Max in-flight requests; extra requests queue by priority (unlimited by default) */
+  maxConcurrency?: number | ConcurrencyLimiter;
+  /** Tracer for per-request spans (e.g. an OpenTelemetry tracer) */
+  tracer?: Tracer;
+  /** Logger for requests, retries and parse failures (API keys are always redacted) */
+  logger?: Logger;
+  /** Minimum log level (default: 'info') */
+  logLevel?: LogLevel;
+  /** Mask message content and queries in log output */
+  maskContent?: boolean;
+  /** Registry for request, retry, rate-limit and token metrics */
+  metrics?: MetricsRegistry;
 }
 
 // ============================================
@@ -98,21 +135,115 @@ export interface CreateOptions {
   folder?: string;
   importanceScore?: number;
   metadata?: Record<string, any>;
+  /** Idempotency key sent on every retry attempt (auto-generated if omitted) */
+  idempotencyKey?: string;
+  /** Queue priority when maxConcurrency is set (default: 'normal') */
+  priority?: RequestPriority;
   signal?: AbortSignal;
 }
 
+/**
+ * Per-call options shared by client methods
+ */
+export interface CallOptions {
+  /** Queue priority when maxConcurrency is set (default: 'normal') */
+  priority?: RequestPriority;
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for mutating (POST) operations
+ */
+export interface MutationOptions extends CallOptions {
+  /** Idempotency key sent on every retry attempt (auto-generated if omitted) */
+  idempotencyKey?: string;
+}
+
+/**
+ * Options for auto-paginating iterators
+ */
+export interface PaginateOptions extends CallOptions {
+  /** Items fetched per request (default: 50) */
+  pageSize?: number;
+  /** Stop after this many items */
+  maxItems?: number;
+}
+
+/**
+ * Options for getMessages()
+ */
+export interface MessageListOptions extends CallOptions {
+  /** Messages per page (default: 100) */
+  limit?: number;
+  /** Messages to skip (default: 0) */
+  offset?: number;
+}
+
+/**
+ * Options for getFolderTree()
+ */
+export interface FolderTreeOptions extends BulkOptions {
+  /** Folder at the top of the tree (default: '/') */
+  root?: string;
+}
+
+/**
+ * Options for moveFolder()
+ */
+export interface FolderMoveOptions extends BulkOptions {
+  /** Plan the move without changing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for renameLabel() and mergeLabels()
+ */
+export interface LabelMergeOptions extends BulkOptions {
+  /** Plan the relabel without changing anything */
+  dryRun?: boolean;
+}
+
+/**
+ * Options for hybridSearch()
+ */
+export interface HybridSearchOptions extends CallOptions {
+  /** Results returned after fusion (default: 10) */
+  limit?: number;
+  /** Candidates fetched from each search (default: 2 × limit, 3 × limit with maxPerConversation) */
+  candidates?: number;
+  /** Semantic search filters (full-text search is unfiltered) */
+  filters?: FilterParams;
+  /** Merged into `filters.labels` */
+  labels?: string[];
+  /** 'rrf' (reciprocal rank fusion, default) or 'weighted' (normalized scores) */
+  fusion?: 'rrf' | 'weighted';
+  /** Relative weight of each search (default: 1 each) */
+  weights?: { semantic?: number; fts?: number };
+  /** RRF rank constant (default: 60) */
+  rrfK?: number;
+  /** Cap on results from any one conversation */
+  maxPerConversation?: number;
+}
+
+/**
+ * Options for bulk operations
+ */
+export interface BulkOptions extends CallOptions {
+  /** Requests in flight at once (default: 5) */
+  concurrency?: number;
+}
+
 /**
  * List/filter options for conversations
  */
-export interface ListFilter {
-  label?: string;
-  folder?: string;
+export interface ListFilter extends FilterParams {
   pinned?: boolean;
   archived?: boolean;
   page?: number;
   page_size?: number;
   limit?: number; // Alias for page_size
   offset?: number; // Alternative pagination
+  sort?: SortParams;
 }
 
 /**
@@ -121,8 +252,14 @@ export interface ListFilter {
 export interface SearchOptions {
   limit?: number;
   offset?: number;
+  /** Merged into `filters.labels` */
   labels?: string[];
-  filters?: Record<string, any>;
+  filters?: FilterParams;
+  sort?: SortParams;
+  /** Cap on results from any one conversation */
+  maxPerConversation?: number;
+  /** Queue priority when maxConcurrency is set (default: 'normal') */
+  priority?: RequestPriority;
   signal?: AbortSignal;
 }
 
@@ -134,6 +271,8 @@ export interface ContextOptions {
   preferred_labels?: string[];
   context_budget?: number; // Token budget
   excluded_folders?: string[];
+  /** Queue priority when maxConcurrency is set (default: 'normal') */
+  priority?: RequestPriority;
   signal?: AbortSignal;
 }
 
@@ -145,6 +284,56 @@ export interface ExportOptions {
   format?: 'markdown' | 'json';
   conversation_id?: string; // For single conversation export
   include_metadata?: boolean;
+  /** Queue priority when maxConcurrency is set (default: 'low') */
+  priority?: RequestPriority;
+  /** Abort signal */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for exportConversations()
+ */
+export interface ConversationExportOptions extends Omit<ExportOptions, 'conversation_id'> {
+  /** Resume after this conversation (the `cursor` of the last exported conversation) */
+  cursor?: string;
+  /** Conversations listed per page (default: 100) */
+  pageSize?: number;
+}
+
+/**
+ * Options for exportTo()
+ */
+export interface ExportToOptions extends ConversationExportOptions {
+  /**
+   * Write one JSON line per conversation instead of the raw export
+   * body (implied by `cursor`); required for resuming
+   */
+  byConversation?: boolean;
+  /** Called after each conversation is written; persist it to resume */
+  onCursor?: (cursor: string) => void;
+}
+
+/**
+ * One conversation from exportConversations()
+ */
+export interface ExportedConversation {
+  conversation_id: string;
+  /** Pass as `cursor` to resume after this conversation */
+  cursor: string;
+  /** memory_export output */
+  data: Record<string, unknown>;
+}
+
+/**
+ * Outcome of exportTo()
+ */
+export interface ExportWriteResult {
+  /** Characters written */
+  written: number;
+  /** Conversations written (per-conversation exports only) */
+  conversations: number;
+  /** Cursor of the last conversation written (per-conversation exports only) */
+  cursor?: string;
 }
 
 /**
@@ -167,7 +356,8 @@ export interface UpdateFolderRequest {
  */
 export interface QueryRequest {
   query: string;
-  filters?: any;
+  filters?: FilterParams;
+  sort?: SortParams;
   limit?: number;
   offset?: number;
 }
@@ -273,6 +463,49 @@ export interface FtsSearchResponse {
   total: number;
 }
 
+/**
+ * Page of conversation messages, oldest first
+ */
+export interface MessagePage {
+  conversation_id: string;
+  messages: Message[];
+  /** Messages in the conversation */
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Search result from semantic and/or full-text search
+ */
+export interface HybridSearchResult {
+  conversation_id: string;
+  message_id: string;
+  content: string;
+  /** Fused relevance score (higher is better) */
+  score: number;
+  /** Searches that returned this message */
+  sources: Array<'semantic' | 'fts'>;
+  /** Similarity score from semantic search */
+  semantic_score?: number;
+  /** FTS rank as reported by the controller */
+  fts_rank?: number;
+  role?: string;
+  label?: string;
+  folder?: string;
+  metadata?: SearchResult['metadata'];
+  timestamp: string;
+}
+
+/**
+ * Hybrid search response
+ */
+export interface HybridSearchResponse {
+  results: HybridSearchResult[];
+  /** Unique results available before applying the limit */
+  total: number;
+}
+
 /**
  * Context assembly result
  */
@@ -362,6 +595,22 @@ export interface RebuildEmbeddingsResponse {
   success: boolean;
   message: string;
   estimated_completion_seconds: number;
+  /** Set by controllers that track rebuild jobs */
+  job_id?: string;
+}
+
+/**
+ * Rebuild embeddings job status (GET /api/v1/rebuild-embeddings/status)
+ */
+export interface RebuildEmbeddingsStatusResponse {
+  job_id?: string;
+  /** 'pending' | 'running' | 'completed' | 'failed' */
+  status: string;
+  /** Fraction done, 0-1 */
+  progress?: number;
+  processed?: number;
+  total?: number;
+  error?: string;
 }
 
 /**
@@ -408,7 +657,7 @@ export interface MemoryStoreRequest {
  */
 export interface MemoryQueryRequest {
   query: string;
-  filters?: any;
+  filters?: FilterParams;
   limit?: number;
 }
 
@@ -439,12 +688,16 @@ export interface PaginationParams {
  * Filter parameters for searches
  */
 export interface FilterParams {
+  label?: string;
+  /** Match any of these labels */
   labels?: string[];
   folder?: string;
   status?: ConversationStatus;
   importance_min?: number;
   importance_max?: number;
+  /** ISO 8601 date or datetime (inclusive) */
   date_from?: string;
+  /** ISO 8601 date or datetime (inclusive) */
   date_to?: string;
 }
 
@@ -456,13 +709,69 @@ export interface SortParams {
   order: 'asc' | 'desc';
 }
 
+/**
+ * Folder in a folder tree
+ */
+export interface FolderNode {
+  /** Full path, e.g. '/work/engineering' */
+  path: string;
+  /** Last path segment ('' for '/') */
+  name: string;
+  /** Conversations directly in this folder */
+  count: number;
+  /** Conversations in this folder and all subfolders */
+  total: number;
+  children: FolderNode[];
+}
+
+/**
+ * Planned or applied folder move
+ */
+export interface FolderMoveResult {
+  from: string;
+  to: string;
+  dryRun: boolean;
+  /** Folder renames, old path to new path */
+  folders: Array<{ from: string; to: string }>;
+  /** Conversations moved (or to be moved on a dry run) */
+  conversations: Array<{ id: string; from: string; to: string }>;
+  /** Per-conversation outcome (omitted on a dry run) */
+  result?: BulkOperationResult;
+}
+
+/**
+ * Label with its conversation count
+ */
+export interface LabelCount {
+  label: string;
+  count: number;
+}
+
+/**
+ * Planned or applied label rename/merge
+ *
+ * On a dry run `success` and `failed` are 0 and `conversations`
+ * lists what would be relabelled.
+ */
+export interface LabelMergeResult extends BulkOperationResult {
+  /** Labels merged away */
+  from: string[];
+  to: string;
+  dryRun: boolean;
+  /** Conversations relabelled (or to be relabelled on a dry run), folder unchanged */
+  conversations: Array<{ id: string; from: string; folder: string }>;
+}
+
 /**
  * Bulk operation result
  */
 export interface BulkOperationResult {
   success: number;
   failed: number;
-  errors?: Array<{ id: string; error: string }>;
+  /** IDs that succeeded, in input order (new conversation IDs for bulkStore) */
+  succeeded?: string[];
+  /** Failures, in input order; `index` is the position in the input */
+  errors?: Array<{ id: string; error: string; index?: number }>;
 }
 
 // ============================================
@@ -10,6 +10,14 @@
 import { MemoryController } from './client';
 import { MCPClient } from './mcp';
 import { BridgeClient } from './bridge';
+import type { FetchLike, Transport } from './transport';
+import type { Middleware } from './middleware';
+import type { RetryPolicy } from './retry';
+import { CircuitBreakerOptions, toCircuitBreaker } from './circuit';
+import type { RateLimiter } from './ratelimit';
+import type { Tracer } from './tracing';
+import type { Logger, LogLevel } from './logger';
+import { MetricsRegistry } from './metrics';
 import { Message, MemoryConfig as _MemoryConfig, MessageContent } from './types';
 import type {
   ChatMessage,
@@ -49,6 +57,51 @@ export interface SekhaConfig {
   
   /** Default conversation label */
   defaultLabel?: string;
+
+  /** Custom transport shared by all three clients */
+  transport?: Transport;
+
+  /** Custom fetch implementation for the default transports */
+  fetch?: FetchLike;
+
+  /** Middleware run around every request of all three clients */
+  middleware?: Middleware[];
+
+  /** Retry policy overrides for all three clients */
+  retry?: Partial<RetryPolicy>;
+
+  /**
+   * Circuit breaker options, applied per backend service
+   * (controller + MCP share one breaker, bridge has its own)
+   */
+  circuitBreaker?: CircuitBreakerOptions | boolean;
+
+  /** Controller requests per minute, shared by REST and MCP (default: 1000) */
+  rateLimit?: number;
+
+  /** Rate limiter shared by all three clients (overrides rateLimit) */
+  rateLimiter?: RateLimiter;
+
+  /**
+   * Max in-flight requests per backend service
+   * (controller + MCP share one queue, bridge has its own)
+   */
+  maxConcurrency?: number;
+
+  /** Tracer for per-request spans across all three clients */
+  tracer?: Tracer;
+
+  /** Logger shared by all three clients (API keys are always redacted) */
+  logger?: Logger;
+
+  /** Minimum log level (default: 'info') */
+  logLevel?: LogLevel;
+
+  /** Mask message content and queries in log output */
+  maskContent?: boolean;
+
+  /** Metrics registry shared by all three clients (created if omitted) */
+  metrics?: MetricsRegistry;
 }
 
 // ============================================
@@ -112,10 +165,18 @@ export class SekhaClient {
   /** LLM Bridge Client */
   public bridge: BridgeClient;
 
+  /** SDK metrics collected across all three clients */
+  public readonly metrics: MetricsRegistry;
+
   private config: SekhaConfig;
 
   constructor(config: SekhaConfig) {
     this.config = config;
+    this.metrics = config.metrics ?? new MetricsRegistry();
+
+    // One breaker per backend: REST and MCP both hit the controller
+    const controllerBreaker = toCircuitBreaker(config.circuitBreaker, 'controller');
+    const bridgeBreaker = toCircuitBreaker(config.circuitBreaker, 'bridge');
 
     // Initialize Controller
     this.controller = new MemoryController({
@@ -124,14 +185,39 @@ export class SekhaClient {
       defaultLabel: config.defaultLabel,
       timeout: config.timeout,
       maxRetries: config.maxRetries,
+      transport: config.transport,
+      fetch: config.fetch,
+      middleware: config.middleware,
+      retry: config.retry,
+      circuitBreaker: controllerBreaker,
+      rateLimit: config.rateLimit,
+      rateLimiter: config.rateLimiter,
+      maxConcurrency: config.maxConcurrency,
+      tracer: config.tracer,
+      logger: config.logger,
+      logLevel: config.logLevel,
+      maskContent: config.maskContent,
+      metrics: this.metrics,
     });
 
-    // Initialize MCP Client
+    // Initialize MCP Client (shares the controller's rate limiter and queue)
     this.mcp = new MCPClient({
       baseURL: config.controllerURL,
       mcpApiKey: config.mcpApiKey || config.apiKey,
       timeout: config.timeout,
       maxRetries: config.maxRetries,
+      transport: config.transport,
+      fetch: config.fetch,
+      middleware: config.middleware,
+      retry: config.retry,
+      circuitBreaker: controllerBreaker,
+      rateLimiter: this.controller.rateLimiter,
+      maxConcurrency: this.controller.concurrency,
+      tracer: config.tracer,
+      logger: config.logger,
+      logLevel: config.logLevel,
+      maskContent: config.maskContent,
+      metrics: this.metrics,
     });
 
     // Initialize Bridge Client
@@ -140,6 +226,18 @@ export class SekhaClient {
       apiKey: config.bridgeApiKey,
       timeout: config.timeout,
       maxRetries: config.maxRetries,
+      transport: config.transport,
+      fetch: config.fetch,
+      middleware: config.middleware,
+      retry: config.retry,
+      circuitBreaker: bridgeBreaker,
+      rateLimiter: config.rateLimiter,
+      maxConcurrency: config.maxConcurrency,
+      tracer: config.tracer,
+      logger: config.logger,
+      logLevel: config.logLevel,
+      maskContent: config.maskContent,
+      metrics: this.metrics,
     });
   }
 
@@ -478,7 +576,8 @@ export class SekhaClient {
   /**
    * Health check for all services
    * 
-   * Checks controller, bridge health simultaneously.
+   * Checks controller, bridge health simultaneously. When circuit
+   * breakers are enabled, their state is reported under `circuits`.
    * 
    * @returns Combined health status
    * 
@@ -487,6 +586,7 @@ export class SekhaClient {
    * const health = await sekha.healthCheck();
    * console.log(`Controller: ${health.controller.status}`);
    * console.log(`Bridge: ${health.bridge.status}`);
+   * console.log(`Bridge circuit: ${health.circuits.bridge?.state}`);
    * ```
    */
   async healthCheck() {
@@ -504,6 +604,10 @@ export class SekhaClient {
         bridgeHealth.status === 'fulfilled'
           ? bridgeHealth.value
           : { status: 'unhealthy', error: bridgeHealth.reason },
+      circuits: {
+        controller: this.controller.circuitBreaker?.getSnapshot(),
+        bridge: this.bridge.circuitBreaker?.getSnapshot(),
+      },
     };
   }
 }
@@ -1,6 +1,6 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { MemoryController } from '../src/client';
-import { SekhaAuthError, SekhaValidationError, SekhaNotFoundError } from '../src/errors';
+import { SekhaAuthError, SekhaValidationError, SekhaNotFoundError, SekhaAbortError } from '../src/errors';
 import { createMockResponse, createMockErrorResponse } from './mocks';
 
 const fetchMock = vi.fn();
@@ -19,7 +19,7 @@ describe('MemoryController - Advanced Coverage', () => {
 
   describe('RateLimiter edge case', () => {
     it('should wait when rate limit exceeded', async () => {
-      let fakeTime = 1000000;
+      let fakeTime = Date.now();
       vi.spyOn(Date, 'now').mockImplementation(() => fakeTime);
       
       vi.spyOn(global, 'setTimeout').mockImplementation((fn: any, ms?: number) => {
@@ -28,9 +28,12 @@ describe('MemoryController - Advanced Coverage', () => {
         return {} as NodeJS.Timeout;
       });
       
-      (memory as any).rateLimiter.requests = Array(1000).fill(fakeTime);
-      await (memory as any).rateLimiter.acquire();
-      expect((memory as any).rateLimiter.requests.length).toBe(1);
+      for (let i = 0; i < 1000; i++) {
+        expect(await memory.rateLimiter.acquire()).toBe(0);
+      }
+      const waited = await memory.rateLimiter.acquire();
+      expect(waited).toBeGreaterThan(0);
+      expect(waited).toBeLessThanOrEqual(60);
       
       vi.restoreAllMocks();
     }, 5000);
@@ -153,7 +156,7 @@ describe('MemoryController - Advanced Coverage', () => {
           context_budget: 1000,
           signal: controller.signal
         })
-      ).rejects.toThrow(/timed out/);
+      ).rejects.toThrow(SekhaAbortError);
 
       expect(fetchMock).toHaveBeenCalledTimes(1);
     });
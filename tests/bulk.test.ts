@@ -0,0 +1,115 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+describe('Bulk operations', () => {
+  it('should report successes and failures per id without aborting the run', async () => {
+    const fetchMock = vi.fn().mockImplementation((url: string) =>
+      url.includes('conv_2')
+        ? createMockErrorResponse(404, 'Conversation not found')
+        : createMockResponse({})
+    );
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const result = await memory.bulkDelete(['conv_1', 'conv_2', 'conv_3']);
+
+    expect(result).toEqual({
+      success: 2,
+      failed: 1,
+      succeeded: ['conv_1', 'conv_3'],
+      errors: [{ id: 'conv_2', error: expect.stringContaining('not found'), index: 1 }],
+    });
+    expect(fetchMock.mock.calls.map(([, init]) => init.method)).toEqual(['DELETE', 'DELETE', 'DELETE']);
+  });
+
+  it('should bound the number of requests in flight', async () => {
+    let inFlight = 0;
+    let peak = 0;
+    const fetchMock = vi.fn().mockImplementation(async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      inFlight--;
+      return createMockResponse({});
+    });
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+    const ids = Array.from({ length: 10 }, (_, i) => `conv_${i}`);
+
+    const result = await memory.bulkPin(ids, { concurrency: 3 });
+
+    expect(result.success).toBe(10);
+    expect(result.succeeded).toEqual(ids);
+    expect(peak).toBe(3);
+  });
+
+  it('should return new conversation IDs from bulkStore and key failures by idempotency key', async () => {
+    let created = 0;
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      const body = JSON.parse(init.body as string);
+      return body.label === 'bad'
+        ? createMockErrorResponse(400, 'Invalid messages')
+        : createMockResponse({ id: `conv_new_${++created}` }, 201);
+    });
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const result = await memory.bulkStore([
+      { messages: [{ role: 'user', content: 'one' }], label: 'good' },
+      { messages: [], label: 'bad', idempotencyKey: 'import-2' },
+    ], { concurrency: 1 });
+
+    expect(result.succeeded).toEqual(['conv_new_1']);
+    expect(result.errors).toEqual([{ id: 'import-2', error: expect.any(String), index: 1 }]);
+    expect(fetchMock.mock.calls[1][1].headers['Idempotency-Key']).toBe('import-2');
+  });
+
+  it('should send the folder and label with bulk updates', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({}));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    await memory.bulkUpdateFolder(['conv_1'], '/archive/2026');
+    await memory.bulkUpdateLabel(['conv_2'], 'Done', '/work');
+    await memory.bulkArchive(['conv_3']);
+
+    expect(fetchMock.mock.calls.map(([url, init]) => [url, init.body])).toEqual([
+      ['http://localhost:8080/api/v1/conversations/conv_1/folder', JSON.stringify({ folder: '/archive/2026' })],
+      ['http://localhost:8080/api/v1/conversations/conv_2/label', JSON.stringify({ label: 'Done', folder: '/work' })],
+      ['http://localhost:8080/api/v1/conversations/conv_3/archive', undefined],
+    ]);
+  });
+
+  it('should mark items not yet started as failed once aborted', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation(() => {
+      controller.abort();
+      return createMockResponse({});
+    });
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const result = await memory.bulkArchive(['conv_1', 'conv_2', 'conv_3'], {
+      concurrency: 1,
+      signal: controller.signal,
+    });
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(result.failed).toBe(2);
+    expect(result.errors?.map(error => error.error)).toEqual(['Operation aborted', 'Operation aborted']);
+  });
+
+  it('should reject an invalid concurrency', async () => {
+    const memory = new MemoryController({ ...mockConfig, fetch: vi.fn() });
+
+    await expect(memory.bulkDelete(['conv_1'], { concurrency: 0 })).rejects.toThrow(SekhaValidationError);
+  });
+
+  it('should reject an invalid concurrency for folder and retention lookups', async () => {
+    const fetchMock = vi.fn().mockImplementation(() =>
+      createMockResponse({ success: true, data: { total_conversations: 1, average_importance: 5, folders: ['/work'] } })
+    );
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    await expect(memory.getFolderTree({ concurrency: 0 })).rejects.toThrow(SekhaValidationError);
+    await expect(memory.planRetention({ maxAgeDays: 30, folderMaxAgeDays: { '/work': 7 } }, { concurrency: 1.5 }))
+      .rejects.toThrow('Invalid concurrency');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { CircuitBreaker, CircuitStateChange } from '../src/circuit';
+import { BridgeClient } from '../src/bridge';
+import { SekhaClient } from '../src/unified';
+import {
+  SekhaAPIError,
+  SekhaCircuitOpenError,
+  SekhaConnectionError,
+  SekhaNotFoundError,
+  SekhaAbortError,
+} from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const fail = () => Promise.reject(new SekhaConnectionError('refused'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should open after consecutive failures and fail fast', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const operation = vi.fn(fail);
+
+    await expect(breaker.execute(operation)).rejects.toThrow(SekhaConnectionError);
+    await expect(breaker.execute(operation)).rejects.toThrow(SekhaConnectionError);
+    expect(breaker.state).toBe('open');
+
+    await expect(breaker.execute(operation)).rejects.toThrow(SekhaCircuitOpenError);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not count client errors as backend failures', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+
+    await expect(
+      breaker.execute(() => Promise.reject(new SekhaNotFoundError('missing')))
+    ).rejects.toThrow(SekhaNotFoundError);
+    await expect(
+      breaker.execute(() => Promise.reject(new SekhaAPIError('conflict', 409, '')))
+    ).rejects.toThrow(SekhaAPIError);
+
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should leave failure counts untouched when a call is aborted', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2 });
+    const abort = () => Promise.reject(new SekhaAbortError('Request aborted'));
+
+    await expect(breaker.execute(fail)).rejects.toThrow(SekhaConnectionError);
+    await expect(breaker.execute(abort)).rejects.toThrow(SekhaAbortError);
+    expect(breaker.getSnapshot().failures).toBe(1);
+
+    await expect(breaker.execute(fail)).rejects.toThrow(SekhaConnectionError);
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should stay half-open and free the trial slot when the trial is aborted', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    now = 100;
+
+    await expect(
+      breaker.execute(() => Promise.reject(new SekhaAbortError('Request aborted')))
+    ).rejects.toThrow(SekhaAbortError);
+    expect(breaker.state).toBe('half-open');
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should half-open after resetTimeout and close on success', async () => {
+    let now = 1_000_000;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const events: CircuitStateChange[] = [];
+    const breaker = new CircuitBreaker({
+      name: 'bridge',
+      failureThreshold: 1,
+      resetTimeout: 5000,
+      onStateChange: event => events.push(event),
+    });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(breaker.getSnapshot()).toMatchObject({ state: 'open', nextAttemptAt: 1_005_000 });
+
+    now += 5000;
+    expect(breaker.state).toBe('half-open');
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+
+    expect(breaker.state).toBe('closed');
+    expect(events.map(e => `${e.from}->${e.to}`)).toEqual([
+      'closed->open',
+      'open->half-open',
+      'half-open->closed',
+    ]);
+    expect(events[0].name).toBe('bridge');
+  });
+
+  it('should re-open when the trial request fails', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    now = 100;
+    await expect(breaker.execute(fail)).rejects.toThrow(SekhaConnectionError);
+
+    expect(breaker.state).toBe('open');
+  });
+
+  it('should allow a single trial request while half-open', async () => {
+    let now = 0;
+    vi.spyOn(Date, 'now').mockImplementation(() => now);
+    const breaker = new CircuitBreaker({ failureThreshold: 1, resetTimeout: 100 });
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    now = 100;
+
+    let release: () => void = () => {};
+    const trial = breaker.execute(() => new Promise<void>(resolve => { release = resolve; }));
+
+    await expect(breaker.execute(succeed)).rejects.toThrow(SekhaCircuitOpenError);
+    release();
+    await trial;
+    expect(breaker.state).toBe('closed');
+  });
+
+  it('should unsubscribe listeners', async () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1 });
+    const listener = vi.fn();
+    const unsubscribe = breaker.onStateChange(listener);
+    unsubscribe();
+
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    expect(listener).not.toHaveBeenCalled();
+  });
+
+  describe('client integration', () => {
+    it('should stop calling a failing bridge', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockErrorResponse(500, 'boom'));
+      const bridge = new BridgeClient({
+        baseURL: 'http://localhost:5001',
+        fetch: fetchMock,
+        maxRetries: 0,
+        circuitBreaker: { failureThreshold: 2 },
+      });
+
+      await expect(bridge.embed({ text: 'a' })).rejects.toThrow(SekhaAPIError);
+      await expect(bridge.embed({ text: 'b' })).rejects.toThrow(SekhaAPIError);
+      await expect(bridge.embed({ text: 'c' })).rejects.toThrow(SekhaCircuitOpenError);
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(bridge.circuitBreaker?.state).toBe('open');
+    });
+
+    it('should report circuit state from SekhaClient.healthCheck()', async () => {
+      const fetchMock = vi.fn().mockImplementation((url: string) =>
+        url.startsWith('http://localhost:5001')
+          ? Promise.reject(new TypeError('fetch failed'))
+          : createMockResponse({ status: 'healthy', version: '1.0.0', uptime_seconds: 1 })
+      );
+      const sekha = new SekhaClient({
+        controllerURL: 'http://localhost:8080',
+        bridgeURL: 'http://localhost:5001',
+        apiKey: mockConfig.apiKey,
+        fetch: fetchMock,
+        maxRetries: 0,
+        circuitBreaker: { failureThreshold: 1 },
+      });
+
+      const health = await sekha.healthCheck();
+
+      expect(health.controller.status).toBe('healthy');
+      expect(health.bridge.status).toBe('unhealthy');
+      expect(health.circuits.controller?.state).toBe('closed');
+      expect(health.circuits.bridge?.state).toBe('open');
+      expect(sekha.mcp.circuitBreaker).toBe(sekha.controller.circuitBreaker);
+    });
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type MockInstance } from 'vitest';
 import { MemoryController } from '../src/client';
-import { SekhaAPIError, SekhaConnectionError } from '../src/errors';
+import { SekhaAPIError, SekhaAbortError } from '../src/errors';
 import { createMockResponse, createMockErrorResponse } from './mocks';
 
 describe('MemoryController', () => {
@@ -141,6 +141,25 @@ describe('MemoryController', () => {
       fetchMock
         .mockResolvedValueOnce(createMockErrorResponse(500, 'Server Error'))
         .mockResolvedValueOnce(createMockErrorResponse(500, 'Server Error'))
+        .mockResolvedValueOnce(createMockResponse({ results: [], total: 0 }));
+
+      const result = await memory.query('test');
+
+      expect(result.total).toBe(0);
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+    });
+
+    it('should fail after max retries', async () => {
+      fetchMock.mockResolvedValue(createMockErrorResponse(500, 'Server Error'));
+
+      await expect(memory.query('test')).rejects.toThrow(SekhaAPIError);
+
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should retry store() with the same idempotency key', async () => {
+      fetchMock
+        .mockResolvedValueOnce(createMockErrorResponse(503, 'Unavailable'))
         .mockResolvedValueOnce(createMockResponse({ id: 'conv_123' }, 201));
 
       const result = await memory.create({
@@ -149,17 +168,35 @@ describe('MemoryController', () => {
       });
 
       expect(result.id).toBe('conv_123');
-      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      const firstKey = fetchMock.mock.calls[0][1].headers['Idempotency-Key'];
+      expect(firstKey).toMatch(/^[0-9a-f-]{36}$/);
+      expect(fetchMock.mock.calls[1][1].headers['Idempotency-Key']).toBe(firstKey);
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body).idempotencyKey).toBeUndefined();
     });
 
-    it('should fail after max retries', async () => {
+    it('should send caller-provided idempotency keys', async () => {
+      fetchMock.mockResolvedValue(createMockResponse({}, 204));
+
+      await memory.pruneExecute(['conv_1'], { idempotencyKey: 'nightly-prune-2026-10-19' });
+
+      expect(fetchMock.mock.calls[0][1].headers['Idempotency-Key']).toBe('nightly-prune-2026-10-19');
+    });
+
+    it('should not blindly retry POSTs without an idempotency key', async () => {
+      memory = new MemoryController({
+        baseURL: 'http://localhost:8080',
+        apiKey: 'sk-test-12345678901234567890123456789012',
+        idempotencyKeys: false
+      });
       fetchMock.mockResolvedValue(createMockErrorResponse(500, 'Server Error'));
 
       await expect(
         memory.create({ messages: [], label: 'Test' })
       ).rejects.toThrow(SekhaAPIError);
 
-      expect(fetchMock).toHaveBeenCalledTimes(4);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(fetchMock.mock.calls[0][1].headers['Idempotency-Key']).toBeUndefined();
     });
   });
 
@@ -200,7 +237,7 @@ describe('MemoryController', () => {
 
       controller.abort();
 
-      await expect(createPromise).rejects.toThrow(SekhaConnectionError);
+      await expect(createPromise).rejects.toThrow(SekhaAbortError);
       expect(fetchMock).toHaveBeenCalled();
     }, 5000);
   });
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ConcurrencyLimiter } from '../src/concurrency';
+import { MemoryController } from '../src/client';
+import { BridgeClient } from '../src/bridge';
+import { SekhaClient } from '../src/unified';
+import { SekhaAbortError, SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+/**
+ * Promise that resolves when release() is called
+ */
+const deferred = () => {
+  let release: () => void = () => {};
+  const promise = new Promise<void>(resolve => { release = resolve; });
+  return { promise, release };
+};
+
+/**
+ * fetch mock that holds every request until released
+ */
+const holdingFetch = () => {
+  const held: Array<{ url: string; body?: string; release: () => void }> = [];
+  const fetchMock = vi.fn().mockImplementation((url: string, init: RequestInit) => {
+    const gate = deferred();
+    held.push({ url, body: init.body as string | undefined, release: gate.release });
+    return gate.promise.then(() => createMockResponse({ results: [], total: 0 }));
+  });
+  return { fetchMock, held };
+};
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ConcurrencyLimiter', () => {
+  it('should cap concurrent operations', async () => {
+    const limiter = new ConcurrencyLimiter(2);
+    const gates = [deferred(), deferred(), deferred()];
+    let started = 0;
+
+    const runs = gates.map(gate => limiter.run(async () => {
+      started++;
+      await gate.promise;
+    }));
+
+    await flush();
+    expect(started).toBe(2);
+    expect(limiter.active).toBe(2);
+    expect(limiter.pending).toBe(1);
+
+    gates[0].release();
+    await flush();
+    expect(started).toBe(3);
+
+    gates[1].release();
+    gates[2].release();
+    await Promise.all(runs);
+    expect(limiter.active).toBe(0);
+  });
+
+  it('should start queued operations by priority, FIFO within a priority', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const blocker = deferred();
+    const order: string[] = [];
+
+    const first = limiter.run(() => blocker.promise);
+    const queued = [
+      limiter.run(async () => { order.push('low'); }, 'low'),
+      limiter.run(async () => { order.push('normal-1'); }),
+      limiter.run(async () => { order.push('high'); }, 'high'),
+      limiter.run(async () => { order.push('normal-2'); }, 'normal'),
+    ];
+
+    blocker.release();
+    await Promise.all([first, ...queued]);
+
+    expect(order).toEqual(['high', 'normal-1', 'normal-2', 'low']);
+  });
+
+  it('should release the slot when an operation fails', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+
+    await expect(limiter.run(() => Promise.reject(new Error('boom')))).rejects.toThrow('boom');
+    await expect(limiter.run(async () => 'ok')).resolves.toBe('ok');
+  });
+
+  it('should drop aborted requests from the queue', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const blocker = deferred();
+    const controller = new AbortController();
+    const operation = vi.fn();
+
+    const first = limiter.run(() => blocker.promise);
+    const queued = limiter.run(operation, 'normal', controller.signal);
+    controller.abort();
+
+    await expect(queued).rejects.toThrow(SekhaAbortError);
+    expect(limiter.pending).toBe(0);
+
+    blocker.release();
+    await first;
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid limits', () => {
+    expect(() => new ConcurrencyLimiter(0)).toThrow(SekhaValidationError);
+  });
+
+  describe('client integration', () => {
+    it('should queue MemoryController requests over maxConcurrency', async () => {
+      const { fetchMock, held } = holdingFetch();
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, maxConcurrency: 2 });
+
+      const queries = ['a', 'b', 'c', 'd'].map(q => memory.query(q));
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+
+      while (held.length) {
+        held.shift()!.release();
+        await flush();
+      }
+      await Promise.all(queries);
+
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should hold the slot until a streamed body is read', async () => {
+      const encoder = new TextEncoder();
+      const fetchMock = vi.fn().mockImplementation((url: string) => {
+        if (!url.includes('/api/v1/export')) {
+          return Promise.resolve(createMockResponse({ results: [], total: 0 }));
+        }
+        const body = new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(encoder.encode('{"a":'));
+            controller.enqueue(encoder.encode('1}'));
+            controller.close();
+          },
+        });
+        return Promise.resolve(new Response(body, { status: 200 }));
+      });
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, maxConcurrency: 1 });
+
+      const chunks = memory.exportStream();
+      await chunks.next();
+      const query = memory.query('waits');
+      await flush();
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      await chunks.return();
+      await query;
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(memory.concurrency?.active).toBe(0);
+    });
+
+    it('should run interactive queries ahead of background work', async () => {
+      const { fetchMock, held } = holdingFetch();
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, maxConcurrency: 1 });
+
+      const calls = [
+        memory.query('first'),
+        memory.rebuildEmbeddings(),
+        memory.export({ label: 'Work' }),
+        memory.query('interactive'),
+      ];
+
+      const urls: string[] = [];
+      await flush();
+      while (held.length) {
+        const next = held.shift()!;
+        urls.push(next.body ?? next.url);
+        next.release();
+        await flush();
+      }
+      await Promise.all(calls);
+
+      expect(urls[1]).toContain('interactive');
+      expect(urls[2]).toContain('rebuild-embeddings');
+      expect(urls[3]).toContain('/api/v1/export');
+    });
+
+    it('should accept a per-call priority on the bridge', async () => {
+      const { fetchMock, held } = holdingFetch();
+      const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, maxConcurrency: 1 });
+
+      const calls = [
+        bridge.embed({ text: 'first' }),
+        bridge.embed({ text: 'batch' }, { priority: 'low' }),
+        bridge.score({ text: 'urgent' }, { priority: 'high' }),
+      ];
+
+      const bodies: string[] = [];
+      await flush();
+      while (held.length) {
+        const next = held.shift()!;
+        bodies.push(next.body ?? '');
+        next.release();
+        await flush();
+      }
+      await Promise.all(calls);
+
+      expect(bodies.map(body => JSON.parse(body).text)).toEqual(['first', 'urgent', 'batch']);
+    });
+
+    it('should share one queue between controller and MCP in SekhaClient', () => {
+      const sekha = new SekhaClient({
+        controllerURL: 'http://localhost:8080',
+        bridgeURL: 'http://localhost:5001',
+        apiKey: mockConfig.apiKey,
+        maxConcurrency: 4,
+      });
+
+      expect(sekha.mcp.concurrency).toBe(sekha.controller.concurrency);
+      expect(sekha.bridge.concurrency).not.toBe(sekha.controller.concurrency);
+      expect(sekha.bridge.concurrency?.maxConcurrency).toBe(4);
+    });
+  });
+});
@@ -211,12 +211,17 @@ describe('API Endpoint Fixes', () => {
     });
 
     it('should handle 202 Accepted responses', async () => {
-      fetchMock.mockResolvedValue(await createMockResponse({}, 202));
+      fetchMock.mockResolvedValue(await createMockResponse({
+        success: true,
+        message: 'Rebuild started',
+        estimated_completion_seconds: 30,
+      }, 202));
 
-      const result = await client.rebuildEmbeddings();
+      const job = await client.rebuildEmbeddings();
 
-      // FIXED: rebuildEmbeddings() returns Promise<void>, so result is undefined
-      expect(result).toBeUndefined();
+      // rebuildEmbeddings() returns a job handle for the background rebuild
+      expect(job.accepted.estimated_completion_seconds).toBe(30);
+      expect(job.status.state).toBe('pending');
     });
   });
 });
@@ -0,0 +1,218 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { BridgeClient } from '../src/bridge';
+import {
+  SekhaError,
+  SekhaAPIError,
+  SekhaConnectionError,
+  SekhaTimeoutError,
+  SekhaAbortError,
+  SekhaRateLimitError,
+  SekhaServiceUnavailableError,
+  SekhaNotFoundError,
+} from '../src/errors';
+import { parseRateLimitHeaders } from '../src/retry';
+import { mockConfig } from './mocks';
+
+const errorResponse = (status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify({ error: 'failed' }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+/**
+ * SSE response fed one event per pull, with a spy on cancellation
+ */
+const sseStream = (count: number) => {
+  const encoder = new TextEncoder();
+  const cancel = vi.fn();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index >= count) {
+        controller.close();
+        return;
+      }
+      const chunk = { id: 'cmpl_1', choices: [{ index: 0, delta: { content: `t${index++}` }, finish_reason: null }] };
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(chunk)}\n\n`));
+    },
+    cancel,
+  }, { highWaterMark: 0 });
+  return { response: new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }), cancel };
+};
+
+const captureError = async (promise: Promise<unknown>): Promise<SekhaError> => {
+  try {
+    await promise;
+  } catch (error) {
+    return error as SekhaError;
+  }
+  throw new Error('Expected promise to reject');
+};
+
+describe('Typed errors', () => {
+  it('should raise SekhaRateLimitError with header metadata', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(429, {
+      'Retry-After': '7',
+      'X-RateLimit-Limit': '100',
+      'X-RateLimit-Remaining': '0',
+      'X-Request-ID': 'req-123',
+    }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, maxRetries: 0 });
+
+    const error = await captureError(memory.get('conv_1'));
+
+    expect(error).toBeInstanceOf(SekhaRateLimitError);
+    expect(error).toBeInstanceOf(SekhaAPIError);
+    const rateLimit = error as SekhaRateLimitError;
+    expect(rateLimit.statusCode).toBe(429);
+    expect(rateLimit.retryAfterMs).toBe(7000);
+    expect(rateLimit.limit).toBe(100);
+    expect(rateLimit.remaining).toBe(0);
+    expect(rateLimit.requestId).toBe('req-123');
+    expect(rateLimit.method).toBe('GET');
+    expect(rateLimit.url).toBe('http://localhost:8080/api/v1/conversations/conv_1');
+  });
+
+  it('should raise SekhaServiceUnavailableError on 503', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(503, { 'Retry-After': '3' }));
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, maxRetries: 0 });
+
+    const error = await captureError(bridge.health());
+
+    expect(error).toBeInstanceOf(SekhaServiceUnavailableError);
+    expect((error as SekhaServiceUnavailableError).retryAfterMs).toBe(3000);
+    expect(error.message).toMatch(/^Bridge unavailable/);
+  });
+
+  it('should raise SekhaTimeoutError with the configured timeout', async () => {
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+      })
+    );
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, timeout: 20 });
+
+    const error = await captureError(memory.health());
+
+    expect(error).toBeInstanceOf(SekhaTimeoutError);
+    expect(error).toBeInstanceOf(SekhaConnectionError);
+    expect((error as SekhaTimeoutError).timeoutMs).toBe(20);
+    expect(error.method).toBe('GET');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report caller aborts as cancellations, not timeouts', async () => {
+    const controller = new AbortController();
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) =>
+      new Promise((_resolve, reject) => {
+        init.signal?.addEventListener('abort', () => {
+          const error = new Error('The operation was aborted');
+          error.name = 'AbortError';
+          reject(error);
+        });
+        controller.abort();
+      })
+    );
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, timeout: 5000 });
+
+    const pending = captureError(memory.count({}, { signal: controller.signal }));
+    const error = await pending;
+
+    expect(error).toBeInstanceOf(SekhaAbortError);
+    expect(error).not.toBeInstanceOf(SekhaConnectionError);
+    expect(error.method).toBe('GET');
+  });
+
+  it('should cancel a completion stream when the caller aborts after the headers', async () => {
+    const { response, cancel } = sseStream(31);
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: vi.fn().mockResolvedValue(response) });
+    const controller = new AbortController();
+
+    const received: string[] = [];
+    const error = await captureError((async () => {
+      for await (const chunk of bridge.streamComplete({ messages: [] }, { signal: controller.signal })) {
+        received.push(chunk.choices[0].delta.content ?? '');
+        if (received.length === 2) {
+          controller.abort();
+        }
+      }
+    })());
+
+    expect(error).toBeInstanceOf(SekhaAbortError);
+    expect(error).not.toBeInstanceOf(SekhaConnectionError);
+    expect(received).toEqual(['t0', 't1']);
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should cancel a completion stream when the consumer stops early', async () => {
+    const { response, cancel } = sseStream(31);
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: vi.fn().mockResolvedValue(response) });
+
+    for await (const chunk of bridge.streamComplete({ messages: [] })) {
+      expect(chunk.choices[0].delta.content).toBe('t0');
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should remove its listener from the caller signal after each attempt', async () => {
+    const controller = new AbortController();
+    const add = vi.spyOn(controller.signal, 'addEventListener');
+    const remove = vi.spyOn(controller.signal, 'removeEventListener');
+    const fetchMock = vi.fn().mockImplementation(() => Promise.resolve(new Response('{"count":1}', { status: 200 })));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    await memory.count({}, { signal: controller.signal });
+    await memory.count({}, { signal: controller.signal });
+
+    expect(add).toHaveBeenCalledTimes(2);
+    expect(remove).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep refused connections distinct from timeouts', async () => {
+    const refused = new TypeError('fetch failed: ECONNREFUSED');
+    const fetchMock = vi.fn().mockRejectedValue(refused);
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, maxRetries: 0 });
+
+    const error = await captureError(memory.health());
+
+    expect(error).toBeInstanceOf(SekhaConnectionError);
+    expect(error).not.toBeInstanceOf(SekhaTimeoutError);
+    expect(error.cause).toBe(refused);
+    expect(error.url).toBe('http://localhost:8080/health');
+  });
+
+  it('should attach request metadata to every mapped error', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorResponse(404, { 'X-Request-ID': 'req-404' }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const error = await captureError(memory.delete('conv_9'));
+
+    expect(error).toBeInstanceOf(SekhaNotFoundError);
+    expect(error.requestId).toBe('req-404');
+    expect(error.method).toBe('DELETE');
+  });
+
+  describe('parseRateLimitHeaders', () => {
+    it('should fall back to the reset header', () => {
+      const now = 1_700_000_000_000;
+
+      expect(parseRateLimitHeaders(new Headers({ 'RateLimit-Reset': '5' }), now).retryAfterMs).toBe(5000);
+      expect(parseRateLimitHeaders(new Headers({ 'X-RateLimit-Reset': '1700000010' }), now).retryAfterMs).toBe(10000);
+    });
+
+    it('should tolerate missing headers', () => {
+      expect(parseRateLimitHeaders(undefined)).toEqual({
+        retryAfterMs: undefined,
+        limit: undefined,
+        remaining: undefined,
+      });
+    });
+  });
+});
@@ -0,0 +1,251 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { Writable } from 'node:stream';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MemoryController } from '../src/client';
+import { SekhaAbortError, SekhaConnectionError, SekhaValidationError } from '../src/errors';
+import { openFile, writeChunk } from '../src/export';
+import { mockConfig, createMockResponse } from './mocks';
+
+const encoder = new TextEncoder();
+
+/**
+ * Response whose body is fed by the test, one chunk per pull
+ */
+const streamingResponse = (chunks: Array<string | Uint8Array>) => {
+  const pulled: number[] = [];
+  const cancel = vi.fn();
+  let index = 0;
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      pulled.push(index);
+      if (index >= chunks.length) {
+        controller.close();
+        return;
+      }
+      const chunk = chunks[index++];
+      controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+    },
+    cancel,
+  }, { highWaterMark: 0 });
+  return { response: new Response(body, { status: 200 }), pulled, cancel };
+};
+
+/**
+ * Writable that accepts one chunk at a time and finishes it asynchronously
+ */
+const slowWritable = () => {
+  const received: string[] = [];
+  let rejected = 0;
+  const stream = new Writable({
+    highWaterMark: 1,
+    decodeStrings: false,
+    write(chunk: string, _encoding, callback) {
+      received.push(chunk);
+      setTimeout(callback, 1);
+    },
+  });
+  const write = stream.write.bind(stream);
+  stream.write = ((chunk: string) => {
+    const accepted = write(chunk);
+    if (!accepted) rejected++;
+    return accepted;
+  }) as typeof stream.write;
+  return { stream, received, rejections: () => rejected };
+};
+
+const conversations = ['c1', 'c2', 'c3'].map(id => ({ id, label: 'Work', folder: '/work' }));
+
+const createController = () => {
+  const fetchMock = vi.fn().mockImplementation((url: string, init: RequestInit) => {
+    const { pathname } = new URL(url);
+    if (pathname === '/api/v1/conversations') {
+      return createMockResponse({ results: conversations, total: conversations.length, page: 1, page_size: 100 });
+    }
+    const { conversation_id } = JSON.parse(init.body as string);
+    return createMockResponse({ success: true, data: { conversation: { id: conversation_id, messages: [] } } });
+  });
+  return { fetchMock, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+};
+
+describe('Streaming export', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) {
+      rmSync(dir, { recursive: true, force: true });
+      dir = undefined;
+    }
+  });
+
+  it('should yield chunks as the body arrives', async () => {
+    const { response, pulled } = streamingResponse(['# Export\n', 'first conversation\n', 'second conversation\n']);
+    const fetchMock = vi.fn().mockResolvedValue(response);
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const iterator = memory.exportStream({ label: 'Work' })[Symbol.asyncIterator]();
+    const first = await iterator.next();
+
+    expect(first.value).toBe('# Export\n');
+    expect(pulled.length).toBeLessThan(3);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/api/v1/export?label=Work&format=markdown');
+
+    const rest: string[] = [];
+    for (let next = await iterator.next(); !next.done; next = await iterator.next()) {
+      rest.push(next.value);
+    }
+    expect(rest.join('')).toBe('first conversation\nsecond conversation\n');
+  });
+
+  it('should decode characters split across chunks', async () => {
+    const bytes = encoder.encode('naïve – ✓');
+    const { response } = streamingResponse([bytes.slice(0, 3), bytes.slice(3, 8), bytes.slice(8)]);
+    const memory = new MemoryController({ ...mockConfig, fetch: vi.fn().mockResolvedValue(response) });
+
+    const chunks: string[] = [];
+    for await (const chunk of memory.exportStream()) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.join('')).toBe('naïve – ✓');
+  });
+
+  it('should cancel the body when the consumer stops early', async () => {
+    const { response, cancel } = streamingResponse(['a', 'b', 'c']);
+    const memory = new MemoryController({ ...mockConfig, fetch: vi.fn().mockResolvedValue(response) });
+
+    for await (const chunk of memory.exportStream()) {
+      expect(chunk).toBe('a');
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('should stop and cancel the body when aborted mid-stream', async () => {
+    const { response, cancel } = streamingResponse(Array.from({ length: 31 }, (_, i) => `chunk-${i};`));
+    const fetchMock = vi.fn().mockResolvedValue(response);
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+    const controller = new AbortController();
+
+    const received: string[] = [];
+    const drain = async () => {
+      for await (const chunk of memory.exportStream({ signal: controller.signal })) {
+        received.push(chunk);
+        if (received.length === 2) {
+          controller.abort();
+        }
+      }
+    };
+
+    await expect(drain()).rejects.toThrow(SekhaAbortError);
+    expect(received).toEqual(['chunk-0;', 'chunk-1;']);
+    expect(cancel).toHaveBeenCalled();
+    // The caller's signal still reaches fetch after the headers
+    expect((fetchMock.mock.calls[0][1] as RequestInit).signal?.aborted).toBe(true);
+  });
+
+  it('should stop exportTo when aborted mid-stream', async () => {
+    const { response } = streamingResponse(Array.from({ length: 31 }, (_, i) => `chunk-${i};`));
+    const memory = new MemoryController({ ...mockConfig, fetch: vi.fn().mockResolvedValue(response) });
+    const controller = new AbortController();
+    const received: string[] = [];
+    const stream = new Writable({
+      decodeStrings: false,
+      write(chunk: string, _encoding, callback) {
+        received.push(chunk);
+        if (received.length === 2) controller.abort();
+        callback();
+      },
+    });
+
+    await expect(memory.exportTo(stream, { signal: controller.signal })).rejects.toThrow(SekhaAbortError);
+    expect(received).toHaveLength(2);
+  });
+
+  it('should wait for drain when the writable is full', async () => {
+    const parts = Array.from({ length: 20 }, (_, i) => `chunk-${i};`);
+    const { response } = streamingResponse(parts);
+    const memory = new MemoryController({ ...mockConfig, fetch: vi.fn().mockResolvedValue(response) });
+    const { stream, received, rejections } = slowWritable();
+
+    const result = await memory.exportTo(stream);
+    await new Promise<void>(resolve => stream.end(resolve));
+
+    expect(received.join('')).toBe(parts.join(''));
+    expect(result.written).toBe(parts.join('').length);
+    expect(rejections()).toBeGreaterThan(0);
+    expect(stream.writableLength).toBe(0);
+  });
+
+  it('should export conversations one at a time and resume after a cursor', async () => {
+    const { memory, fetchMock } = createController();
+
+    const exported: string[] = [];
+    for await (const item of memory.exportConversations({ label: 'Work', cursor: 'c1' })) {
+      exported.push(item.cursor);
+    }
+
+    expect(exported).toEqual(['c2', 'c3']);
+    const listUrl = new URL(fetchMock.mock.calls[0][0]);
+    expect(listUrl.searchParams.get('sort_by')).toBe('created_at');
+    expect(listUrl.searchParams.get('sort_order')).toBe('asc');
+  });
+
+  it('should reject a cursor that matches no conversation', async () => {
+    const { memory } = createController();
+
+    const drain = async () => {
+      for await (const item of memory.exportConversations({ cursor: 'gone' })) {
+        void item;
+      }
+    };
+
+    await expect(drain()).rejects.toThrow(SekhaValidationError);
+  });
+
+  it('should write JSON lines to a file and append when resuming', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sekha-export-'));
+    const path = join(dir, 'backup.ndjson');
+    const { memory } = createController();
+    const cursors: string[] = [];
+
+    const first = await memory.exportTo(path, { byConversation: true, pageSize: 100, onCursor: c => cursors.push(c) });
+    expect(first).toEqual({ written: expect.any(Number), conversations: 3, cursor: 'c3' });
+    expect(cursors).toEqual(['c1', 'c2', 'c3']);
+
+    const resumed = await memory.exportTo(path, { cursor: 'c2' });
+    expect(resumed.conversations).toBe(1);
+
+    const lines = readFileSync(path, 'utf8').trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.data.conversation.id)).toEqual(['c1', 'c2', 'c3', 'c3']);
+  });
+
+  it('should reject a file that cannot be opened before requesting the export', async () => {
+    const { memory, fetchMock } = createController();
+
+    await expect(memory.exportTo('/no/such/dir/out.md')).rejects.toThrow('Export file could not be opened');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should reject pending and later writes once the stream errors', async () => {
+    const stream = new Writable({ highWaterMark: 1, decodeStrings: false, write: () => undefined });
+    stream.on('error', () => undefined);
+
+    const pending = writeChunk(stream, 'first');
+    stream.destroy(new Error('disk full'));
+
+    await expect(pending).rejects.toThrow('Export write failed: disk full');
+    await expect(writeChunk(stream, 'second')).rejects.toThrow(SekhaConnectionError);
+  });
+
+  it('should reject closing a file whose stream errored', async () => {
+    dir = mkdtempSync(join(tmpdir(), 'sekha-export-'));
+    const file = await openFile(join(dir, 'out.md'), false);
+
+    (file.stream as Writable).destroy(new Error('disk full'));
+
+    await expect(file.close()).rejects.toThrow('Export write failed: disk full');
+  });
+});
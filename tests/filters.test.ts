@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaValidationError } from '../src/errors';
+import type { FilterParams, SortParams } from '../src/types';
+import { mockConfig, createMockResponse } from './mocks';
+
+const emptyPage = { results: [], total: 0, page: 1, page_size: 10 };
+
+describe('Filters and sorting', () => {
+  const setup = () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse(emptyPage));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+    return { fetchMock, memory };
+  };
+
+  describe('list()', () => {
+    it('should serialize filters and sorting to query params', async () => {
+      const { fetchMock, memory } = setup();
+
+      await memory.list({
+        labels: ['Engineering', 'Design'],
+        status: 'active',
+        importance_min: 5,
+        importance_max: 9,
+        date_from: '2026-01-01',
+        date_to: '2026-06-30T23:59:59Z',
+        sort: { field: 'updated_at', order: 'desc' },
+        limit: 20,
+      });
+
+      const params = new URL(fetchMock.mock.calls[0][0]).searchParams;
+      expect(Object.fromEntries(params)).toEqual({
+        labels: 'Engineering,Design',
+        status: 'active',
+        importance_min: '5',
+        importance_max: '9',
+        date_from: '2026-01-01',
+        date_to: '2026-06-30T23:59:59Z',
+        limit: '20',
+        sort_by: 'updated_at',
+        sort_order: 'desc',
+      });
+    });
+
+    it('should reject unknown filter fields', async () => {
+      const { fetchMock, memory } = setup();
+
+      await expect(memory.list({ colour: 'blue' } as FilterParams)).rejects.toThrow(SekhaValidationError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+
+    it('should reject labels that contain commas', async () => {
+      const { fetchMock, memory } = setup();
+
+      await expect(memory.list({ labels: ['Design', 'R&D, Europe'] })).rejects.toThrow(SekhaValidationError);
+      await memory.list({ label: 'R&D, Europe' });
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+      expect(new URL(fetchMock.mock.calls[0][0]).searchParams.get('label')).toBe('R&D, Europe');
+    });
+
+    it('should reject unsupported sort fields', async () => {
+      const { memory } = setup();
+
+      await expect(memory.list({
+        sort: { field: 'score', order: 'desc' } as unknown as SortParams,
+      })).rejects.toThrow('Unsupported sort field');
+    });
+  });
+
+  describe('query()', () => {
+    it('should merge labels into filters instead of dropping them', async () => {
+      const { fetchMock, memory } = setup();
+
+      await memory.query('design', {
+        labels: ['Design'],
+        filters: { labels: ['Engineering'], folder: '/work', importance_min: 7 },
+        sort: { field: 'created_at', order: 'asc' },
+      });
+
+      const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+      expect(body).toEqual({
+        query: 'design',
+        limit: 10,
+        offset: 0,
+        filters: { labels: ['Engineering', 'Design'], folder: '/work', importance_min: 7 },
+        sort_by: 'created_at',
+        sort_order: 'asc',
+      });
+    });
+
+    it('should reject invalid filter values', async () => {
+      const { memory } = setup();
+
+      await expect(memory.query('x', { filters: { status: 'deleted' } as unknown as FilterParams }))
+        .rejects.toThrow(SekhaValidationError);
+      await expect(memory.query('x', { filters: { importance_min: 8, importance_max: 2 } }))
+        .rejects.toThrow(SekhaValidationError);
+      await expect(memory.query('x', { filters: { date_from: 'last tuesday' } }))
+        .rejects.toThrow(SekhaValidationError);
+      await expect(memory.query('x', { labels: 'Design' as unknown as string[] }))
+        .rejects.toThrow(SekhaValidationError);
+    });
+
+    it('should name the unsupported field in the error details', async () => {
+      const { memory } = setup();
+
+      const error = await memory.query('x', { filters: { tag: 'a' } as FilterParams }).catch(e => e);
+
+      expect(error).toBeInstanceOf(SekhaValidationError);
+      expect(error.details).toContain('"tag" is not supported');
+    });
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { buildFolderTree, normalizeFolder, normalizeStoredFolder, rebaseFolder } from '../src/folders';
+import { SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+const folderContents: Record<string, string[]> = {
+  '/work': ['c1'],
+  '/work/eng': ['c2', 'c3'],
+  '/work/eng/infra': ['c4'],
+  '/personal': ['c5'],
+};
+
+/**
+ * Fake controller backed by folderContents
+ */
+const createController = (stats: Record<string, unknown> = { folders: Object.keys(folderContents) }) => {
+  const fetchMock = vi.fn().mockImplementation((url: string, init: RequestInit) => {
+    const { pathname, searchParams } = new URL(url);
+    const folder = searchParams.get('folder') ?? '';
+
+    if (pathname === '/mcp/tools/memory_stats') {
+      return createMockResponse({ success: true, data: { total_conversations: 5, average_importance: 5, ...stats } });
+    }
+    if (pathname === '/api/v1/conversations/count') {
+      return createMockResponse({ count: folderContents[folder]?.length ?? 0, folder });
+    }
+    if (pathname === '/api/v1/conversations' && init.method === 'GET') {
+      const offset = Number(searchParams.get('offset') ?? 0);
+      const ids = folder ? folderContents[folder] ?? [] : Object.values(folderContents).flat();
+      const folderOf = (id: string) => Object.keys(folderContents).find(f => folderContents[f].includes(id));
+      return createMockResponse({
+        results: ids.slice(offset).map(id => ({ id, folder: folderOf(id) })),
+        total: ids.length,
+        page: 1,
+        page_size: 100,
+      });
+    }
+    return createMockResponse({});
+  });
+  return { fetchMock, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+};
+
+describe('Folders', () => {
+  describe('helpers', () => {
+    it('should normalize folder paths', () => {
+      expect(normalizeFolder('/work//eng/')).toBe('/work/eng');
+      expect(normalizeFolder('/')).toBe('/');
+      expect(() => normalizeFolder('work')).toThrow(SekhaValidationError);
+    });
+
+    it('should normalize stored folder paths without throwing', () => {
+      expect(normalizeStoredFolder('work/eng/')).toBe('/work/eng');
+      expect(normalizeStoredFolder('/work//eng')).toBe('/work/eng');
+      expect(normalizeStoredFolder('')).toBe('/');
+    });
+
+    it('should rebase paths onto a new root', () => {
+      expect(rebaseFolder('/work/eng/infra', '/work/eng', '/archive/eng')).toBe('/archive/eng/infra');
+      expect(rebaseFolder('/work/eng', '/work/eng', '/')).toBe('/');
+    });
+
+    it('should build a tree with intermediate folders', () => {
+      const tree = buildFolderTree(new Map([['/a/b/c', 2], ['/a', 1], ['/z', 4]]));
+
+      expect(tree.total).toBe(7);
+      expect(tree.children.map(child => child.path)).toEqual(['/a', '/z']);
+      expect(tree.children[0]).toMatchObject({ name: 'a', count: 1, total: 3 });
+      expect(tree.children[0].children[0]).toMatchObject({ path: '/a/b', count: 0, total: 2 });
+    });
+  });
+
+  describe('MemoryController', () => {
+    it('should list folders from memory_stats', async () => {
+      const { memory } = createController({ folders: ['/work/', '/personal', '/work'] });
+
+      expect(await memory.listFolders()).toEqual(['/personal', '/work']);
+    });
+
+    it('should scan conversations when memory_stats has no folders', async () => {
+      const { memory } = createController({});
+
+      expect(await memory.listFolders()).toEqual(['/personal', '/work', '/work/eng', '/work/eng/infra']);
+    });
+
+    it('should build a counted folder tree', async () => {
+      const { memory } = createController();
+
+      const tree = await memory.getFolderTree({ root: '/work' });
+
+      expect(tree).toMatchObject({ path: '/work', count: 1, total: 4 });
+      expect(tree.children[0]).toMatchObject({ path: '/work/eng', count: 2, total: 3 });
+      expect(tree.children[0].children[0]).toMatchObject({ path: '/work/eng/infra', count: 1, total: 1 });
+    });
+
+    it('should plan a folder move on dry run without changing anything', async () => {
+      const { memory, fetchMock } = createController();
+
+      const plan = await memory.moveFolder('/work/eng', '/archive/eng', { dryRun: true });
+
+      expect(plan.folders).toEqual([
+        { from: '/work/eng', to: '/archive/eng' },
+        { from: '/work/eng/infra', to: '/archive/eng/infra' },
+      ]);
+      expect(plan.conversations).toEqual([
+        { id: 'c2', from: '/work/eng', to: '/archive/eng' },
+        { id: 'c3', from: '/work/eng', to: '/archive/eng' },
+        { id: 'c4', from: '/work/eng/infra', to: '/archive/eng/infra' },
+      ]);
+      expect(plan.result).toBeUndefined();
+      expect(fetchMock.mock.calls.some(([, init]) => init.method === 'PUT')).toBe(false);
+    });
+
+    it('should move every conversation in the subtree', async () => {
+      const { memory, fetchMock } = createController();
+
+      const moved = await memory.moveFolder('/work/eng', '/archive/eng');
+
+      expect(moved.result).toMatchObject({ success: 3, failed: 0 });
+      const updates = fetchMock.mock.calls
+        .filter(([, init]) => init.method === 'PUT')
+        .map(([url, init]) => [new URL(url).pathname, JSON.parse(init.body).folder]);
+      expect(updates).toEqual([
+        ['/api/v1/conversations/c2/folder', '/archive/eng'],
+        ['/api/v1/conversations/c3/folder', '/archive/eng'],
+        ['/api/v1/conversations/c4/folder', '/archive/eng/infra'],
+      ]);
+    });
+
+    it('should move each conversation once when listings include subfolders', async () => {
+      const { memory, fetchMock } = createController();
+      const listed = fetchMock.getMockImplementation()!;
+      // Controller matches folder prefixes, so /work/eng also lists /work/eng/infra
+      fetchMock.mockImplementation((url: string, init: RequestInit) => {
+        const { pathname, searchParams } = new URL(url);
+        const folder = searchParams.get('folder');
+        if (pathname === '/api/v1/conversations' && folder) {
+          const ids = Object.keys(folderContents)
+            .filter(f => f === folder || f.startsWith(`${folder}/`))
+            .flatMap(f => folderContents[f].map(id => ({ id, folder: f })));
+          return createMockResponse({ results: ids, total: ids.length, page: 1, page_size: 100 });
+        }
+        return listed(url, init);
+      });
+
+      const plan = await memory.moveFolder('/work/eng', '/archive/eng', { dryRun: true });
+
+      expect(plan.conversations).toEqual([
+        { id: 'c2', from: '/work/eng', to: '/archive/eng' },
+        { id: 'c3', from: '/work/eng', to: '/archive/eng' },
+        { id: 'c4', from: '/work/eng/infra', to: '/archive/eng/infra' },
+      ]);
+    });
+
+    it('should read unnormalized stored folders and list them by their stored name', async () => {
+      const { memory, fetchMock } = createController({ folders: ['/work', 'work/eng/', '/personal'] });
+      const listed = fetchMock.getMockImplementation()!;
+      fetchMock.mockImplementation((url: string, init: RequestInit) => {
+        const { pathname, searchParams } = new URL(url);
+        if (pathname === '/api/v1/conversations' && searchParams.get('folder') === 'work/eng/') {
+          return createMockResponse({ results: [{ id: 'c2', folder: 'work/eng/' }], total: 1, page: 1, page_size: 100 });
+        }
+        return listed(url, init);
+      });
+
+      expect(await memory.listFolders()).toEqual(['/personal', '/work', '/work/eng']);
+
+      const plan = await memory.moveFolder('/work/eng', '/archive/eng', { dryRun: true });
+      expect(plan.folders).toEqual([{ from: '/work/eng', to: '/archive/eng' }]);
+      expect(plan.conversations).toEqual([{ id: 'c2', from: '/work/eng', to: '/archive/eng' }]);
+    });
+
+    it('should refuse to move a folder into itself', async () => {
+      const { memory } = createController();
+
+      await expect(memory.moveFolder('/work', '/work/sub')).rejects.toThrow('Invalid folder move');
+    });
+
+    it('should only delete empty folders', async () => {
+      const { memory } = createController();
+
+      await expect(memory.deleteFolder('/work/eng')).rejects.toThrow('Folder is not empty');
+      await expect(memory.deleteFolder('/old')).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi } from 'vitest';
+import { groupByConversation, diversify } from '../src/grouping';
+import { MemoryController } from '../src/client';
+import { SekhaValidationError } from '../src/errors';
+import type { SearchResult } from '../src/types';
+import { mockConfig, createMockResponse } from './mocks';
+
+const hit = (conversation: string, message: string, score: number): SearchResult => ({
+  conversation_id: conversation,
+  message_id: message,
+  score,
+  content: `Content ${message}`,
+  metadata: {},
+  label: `Label ${conversation}`,
+  folder: `/${conversation}`,
+  timestamp: '2026-01-01T00:00:00Z',
+});
+
+const results = [
+  hit('long', 'l1', 0.95),
+  hit('long', 'l2', 0.6),
+  hit('short', 's1', 0.9),
+  hit('long', 'l3', 0.85),
+  hit('long', 'l4', 0.5),
+];
+
+describe('Result grouping', () => {
+  describe('groupByConversation', () => {
+    it('should group by conversation with max score and best snippets', () => {
+      const groups = groupByConversation(results, { snippets: 2 });
+
+      expect(groups.map(g => [g.conversation_id, g.score, g.hits])).toEqual([
+        ['long', 0.95, 4],
+        ['short', 0.9, 1],
+      ]);
+      expect(groups[0]).toMatchObject({ label: 'Label long', folder: '/long' });
+      expect(groups[0].snippets.map(s => s.message_id)).toEqual(['l1', 'l3']);
+    });
+
+    it('should rank by mean score when asked', () => {
+      const groups = groupByConversation(results, { aggregate: 'mean' });
+
+      expect(groups.map(g => g.conversation_id)).toEqual(['short', 'long']);
+      expect(groups[1].score).toBeCloseTo((0.95 + 0.6 + 0.85 + 0.5) / 4);
+    });
+
+    it('should reject unknown aggregates', () => {
+      expect(() => groupByConversation(results, { aggregate: 'sum' as 'max' })).toThrow(SekhaValidationError);
+    });
+  });
+
+  describe('diversify', () => {
+    it('should cap hits per conversation and keep order', () => {
+      expect(diversify(results, 2).map(r => r.message_id)).toEqual(['l1', 'l2', 's1']);
+      expect(diversify(results, 1).map(r => r.message_id)).toEqual(['l1', 's1']);
+    });
+
+    it('should reject a cap below one', () => {
+      expect(() => diversify(results, 0)).toThrow(SekhaValidationError);
+    });
+  });
+
+  it('should cap hits per conversation in hybridSearch', async () => {
+    const fetchMock = vi.fn().mockImplementation((url: string) =>
+      url.endsWith('/api/v1/query')
+        ? createMockResponse({ results, total: 5, page: 1, page_size: 20 })
+        : createMockResponse({ results: [], total: 0 })
+    );
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const response = await memory.hybridSearch('limits', { maxPerConversation: 1 });
+
+    expect(response.results.map(r => r.message_id)).toEqual(['l1', 's1']);
+  });
+
+  describe('query with maxPerConversation', () => {
+    // One conversation fills the first page; others only appear later
+    const corpus = [
+      ...Array.from({ length: 8 }, (_, i) => hit('long', `l${i}`, 0.99 - i / 100)),
+      hit('short', 's1', 0.8),
+      hit('other', 'o1', 0.7),
+      hit('last', 'x1', 0.6),
+    ];
+
+    const setup = () => {
+      const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        const { limit, offset } = JSON.parse(init.body as string);
+        return createMockResponse({ results: corpus.slice(offset, offset + limit), total: corpus.length, page: 1, page_size: limit });
+      });
+      return { fetchMock, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+    };
+
+    it('should fetch more than limit and cut the diversified results back to limit', async () => {
+      const { memory, fetchMock } = setup();
+
+      const response = await memory.search('limits', { limit: 2, maxPerConversation: 1 });
+
+      expect(response.results.map(r => r.message_id)).toEqual(['l0', 's1']);
+      expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body)))
+        .toEqual([{ query: 'limits', limit: 6, offset: 0 }, { query: 'limits', limit: 6, offset: 6 }]);
+    });
+
+    it('should apply offset to the diversified results', async () => {
+      const { memory } = setup();
+
+      const response = await memory.query('limits', { limit: 2, offset: 1, maxPerConversation: 2 });
+
+      expect(response.results.map(r => r.message_id)).toEqual(['l1', 's1']);
+    });
+
+    it('should return what exists when the corpus runs out', async () => {
+      const { memory, fetchMock } = setup();
+
+      const response = await memory.query('limits', { limit: 5, maxPerConversation: 1 });
+
+      expect(response.results.map(r => r.message_id)).toEqual(['l0', 's1', 'o1', 'x1']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fill the hybridSearch limit after diversifying', async () => {
+      const { memory } = setup();
+
+      const response = await memory.hybridSearch('limits', { limit: 3, maxPerConversation: 1 });
+
+      expect(response.results.map(r => r.message_id)).toEqual(['l0', 's1', 'o1']);
+    });
+
+    it('should reject an invalid cap before fetching', async () => {
+      const { memory, fetchMock } = setup();
+
+      await expect(memory.query('limits', { maxPerConversation: 0 })).rejects.toThrow(SekhaValidationError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { highlight, escapeHtml } from '../src/highlight';
+import { SekhaValidationError } from '../src/errors';
+import type { ContentPart } from '../src/types';
+
+const longText =
+  'We discussed many things in the weekly sync. ' +
+  'The kubernetes rollout is blocked on the ingress migration, which needs another review. ' +
+  'Afterwards the team talked about lunch plans and holidays for quite a while. ' +
+  'Finally we agreed the rollout should resume on Monday.';
+
+describe('highlight', () => {
+  it('should mark matches case-insensitively within a window', () => {
+    const result = highlight(longText, 'Kubernetes', { window: 20 });
+
+    expect(result.matched).toBe(true);
+    expect(result.snippets).toHaveLength(1);
+    expect(result.text).toBe('…weekly sync. The **kubernetes** rollout is blocked…');
+  });
+
+  it('should return separate snippets for distant matches', () => {
+    const result = highlight(longText, 'rollout', { window: 15 });
+
+    expect(result.snippets.map(s => s.matches)).toEqual([1, 1]);
+    expect(result.snippets[1].text).toBe('…we agreed the **rollout** should resume…');
+    expect(result.text).toBe(result.snippets.map(s => s.text).join(' '));
+  });
+
+  it('should merge overlapping windows and honour maxSnippets', () => {
+    const merged = highlight(longText, 'kubernetes rollout', { window: 10, maxSnippets: 1 });
+
+    expect(merged.snippets).toHaveLength(1);
+    expect(merged.snippets[0].matches).toBe(2);
+    expect(merged.text).toContain('**kubernetes** **rollout**');
+  });
+
+  it('should use custom markers and ellipsis', () => {
+    const result = highlight('Deployment finished', 'deploy', {
+      markers: { pre: '[', post: ']' },
+      ellipsis: '...',
+    });
+
+    expect(result.text).toBe('[Deploy]ment finished');
+  });
+
+  it('should escape HTML while keeping HTML markers', () => {
+    const result = highlight('Use <script> & "quotes" with care', 'script');
+
+    expect(result.html).toBe('Use &lt;<mark>script</mark>&gt; &amp; &quot;quotes&quot; with care');
+    expect(result.text).toBe('Use <**script**> & "quotes" with care');
+  });
+
+  it('should highlight the text parts of multi-modal content', () => {
+    const content: ContentPart[] = [
+      { type: 'text', text: 'Here is the architecture diagram' },
+      { type: 'image_url', image_url: { url: 'https://example.com/diagram.png' } },
+      { type: 'text', text: 'for review' },
+    ];
+
+    expect(highlight(content, 'diagram').text).toBe('Here is the architecture **diagram** for review');
+  });
+
+  it('should fall back to the start of the text without a match', () => {
+    const result = highlight(longText, 'nothing-here', { window: 10 });
+
+    expect(result.matched).toBe(false);
+    expect(result.text).toBe('We discussed many…');
+  });
+
+  it('should treat query terms literally', () => {
+    expect(highlight('cost is $5 (approx.)', '(approx.)').text).toBe('cost is $5 (**approx**.)');
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => highlight('text', 'text', { window: -1 })).toThrow(SekhaValidationError);
+  });
+
+  it('should escape all HTML special characters', () => {
+    expect(escapeHtml(`<a href="x">'&'</a>`)).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
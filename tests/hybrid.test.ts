@@ -0,0 +1,111 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { fuseResults } from '../src/hybrid';
+import { SekhaValidationError } from '../src/errors';
+import type { FtsMessage, SearchResult } from '../src/types';
+import { mockConfig, createMockResponse } from './mocks';
+
+const semantic = (id: string, score: number): SearchResult => ({
+  conversation_id: `conv_${id}`,
+  message_id: id,
+  score,
+  content: `Semantic ${id}`,
+  metadata: { source: 'semantic' },
+  label: 'Support',
+  folder: '/tickets',
+  timestamp: '2026-01-01T00:00:00Z',
+});
+
+const fts = (id: string, rank: number): FtsMessage => ({
+  id,
+  conversation_id: `conv_${id}`,
+  role: 'user',
+  content: `FTS ${id}`,
+  timestamp: '2026-01-02T00:00:00Z',
+  rank,
+});
+
+describe('Hybrid search', () => {
+  describe('fuseResults', () => {
+    it('should merge with reciprocal rank fusion and dedupe by message_id', () => {
+      const results = fuseResults(
+        [semantic('a', 0.9), semantic('b', 0.8), semantic('b', 0.7)],
+        [fts('b', -3.2), fts('c', -1.1)]
+      );
+
+      expect(results.map(r => r.message_id)).toEqual(['b', 'a', 'c']);
+      expect(results[0]).toMatchObject({
+        sources: ['semantic', 'fts'],
+        semantic_score: 0.8,
+        fts_rank: -3.2,
+        role: 'user',
+        label: 'Support',
+        content: 'Semantic b',
+      });
+      expect(results[0].score).toBeCloseTo(1 / 62 + 1 / 61);
+      expect(results[1].score).toBeCloseTo(1 / 61);
+    });
+
+    it('should honour weights', () => {
+      const results = fuseResults([semantic('a', 0.9)], [fts('c', -1)], { weights: { semantic: 1, fts: 3 } });
+
+      expect(results.map(r => r.message_id)).toEqual(['c', 'a']);
+    });
+
+    it('should combine normalized scores in weighted mode', () => {
+      const results = fuseResults(
+        [semantic('a', 0.9), semantic('b', 0.5)],
+        [fts('b', -5), fts('c', -1)],
+        { fusion: 'weighted', weights: { semantic: 0.5, fts: 0.5 } }
+      );
+
+      expect(results.map(r => [r.message_id, r.score])).toEqual([
+        ['a', 0.5],
+        ['b', 0.5],
+        ['c', 0.25],
+      ]);
+    });
+
+    it('should reject unknown fusion methods', () => {
+      expect(() => fuseResults([], [], { fusion: 'max' as 'rrf' })).toThrow(SekhaValidationError);
+    });
+  });
+
+  describe('MemoryController.hybridSearch', () => {
+    it('should run both searches and return the fused top results', async () => {
+      const fetchMock = vi.fn().mockImplementation((url: string) =>
+        url.endsWith('/api/v1/query')
+          ? createMockResponse({ results: [semantic('a', 0.9), semantic('b', 0.6)], total: 2, page: 1, page_size: 4 })
+          : createMockResponse({ results: [fts('c', -2), fts('b', -1)], total: 2 })
+      );
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const response = await memory.hybridSearch('TICKET-4521', {
+        limit: 2,
+        filters: { folder: '/tickets' },
+      });
+
+      expect(response.total).toBe(3);
+      expect(response.results.map(r => r.message_id)).toEqual(['b', 'a']);
+
+      const bodies = Object.fromEntries(
+        fetchMock.mock.calls.map(([url, init]) => [new URL(url).pathname, JSON.parse(init.body)])
+      );
+      expect(bodies['/api/v1/query']).toEqual({
+        query: 'TICKET-4521',
+        limit: 4,
+        offset: 0,
+        filters: { folder: '/tickets' },
+      });
+      expect(bodies['/api/v1/search/fts']).toEqual({ query: 'TICKET-4521', limit: 4 });
+    });
+
+    it('should reject an invalid limit before searching', async () => {
+      const fetchMock = vi.fn();
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      await expect(memory.hybridSearch('x', { limit: 0 })).rejects.toThrow(SekhaValidationError);
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,123 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MemoryController } from '../src/client';
+import { EmbeddingJob } from '../src/jobs';
+import type { JobProgress } from '../src/jobs';
+import { SekhaError, SekhaAbortError, SekhaAPIError, SekhaTimeoutError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const accepted = { success: true, message: 'Rebuild started', estimated_completion_seconds: 10, job_id: 'job_1' };
+
+/**
+ * Controller that accepts the rebuild, then serves the given statuses in order
+ */
+const createController = (statuses: Array<Record<string, unknown> | number>) => {
+  const fetchMock = vi.fn().mockImplementation((url: string) => {
+    if (new URL(url).pathname === '/api/v1/rebuild-embeddings') {
+      return createMockResponse(accepted, 202);
+    }
+    const status = statuses.length > 1 ? statuses.shift()! : statuses[0];
+    return typeof status === 'number' ? createMockErrorResponse(status, 'Not Found') : createMockResponse(status);
+  });
+  return { fetchMock, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+};
+
+describe('EmbeddingJob', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should poll the status route for progress', async () => {
+    const { memory, fetchMock } = createController([{ job_id: 'job_1', status: 'running', processed: 25, total: 100 }]);
+
+    const job = await memory.rebuildEmbeddings();
+    const progress = await job.poll();
+
+    expect(job.id).toBe('job_1');
+    expect(progress).toEqual({ state: 'running', progress: 0.25, processed: 25, total: 100, error: undefined, estimated: false });
+    expect(fetchMock.mock.calls[1][0]).toBe('http://localhost:8080/api/v1/rebuild-embeddings/status?job_id=job_1');
+  });
+
+  it('should emit progress events and resolve on completion', async () => {
+    const { memory, fetchMock } = createController([
+      { status: 'running', progress: 0.5 },
+      { status: 'running', progress: 0.5 },
+      { status: 'completed' },
+    ]);
+    const job = await memory.rebuildEmbeddings();
+    const events: JobProgress[] = [];
+    job.onProgress(progress => events.push(progress));
+
+    const final = await job.waitForCompletion({ interval: 1 });
+
+    expect(final.state).toBe('completed');
+    expect(events.map(e => [e.state, e.progress])).toEqual([['running', 0.5], ['completed', 1]]);
+    expect(job.done).toBe(true);
+
+    // Finished jobs answer from the final state
+    await job.poll();
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+  });
+
+  it('should reject when the rebuild fails', async () => {
+    const { memory } = createController([{ status: 'failed', error: 'embedding model unavailable' }]);
+    const job = await memory.rebuildEmbeddings();
+
+    await expect(job.waitForCompletion({ interval: 1 })).rejects.toThrow(
+      'Embedding rebuild failed: embedding model unavailable'
+    );
+    expect(job.status).toMatchObject({ state: 'failed', error: 'embedding model unavailable' });
+  });
+
+  it('should time out while the rebuild is still running', async () => {
+    const { memory } = createController([{ status: 'running', progress: 0.1 }]);
+    const job = await memory.rebuildEmbeddings();
+
+    await expect(job.waitForCompletion({ interval: 5, timeout: 20 })).rejects.toThrow(SekhaTimeoutError);
+  });
+
+  it('should stop waiting when aborted', async () => {
+    const { memory } = createController([{ status: 'running' }]);
+    const job = await memory.rebuildEmbeddings();
+    const controller = new AbortController();
+
+    const waiting = job.waitForCompletion({ interval: 1000, signal: controller.signal });
+    setTimeout(() => controller.abort(), 10);
+
+    await expect(waiting).rejects.toThrow(SekhaAbortError);
+  });
+
+  it('should never report an estimated job as completed', async () => {
+    vi.useFakeTimers();
+    const { memory } = createController([404]);
+    const job = await memory.rebuildEmbeddings();
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await job.poll()).toEqual({ state: 'running', progress: 0.5, estimated: true });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(await job.poll()).toEqual({ state: 'unknown', progress: 1, estimated: true });
+    expect(job.done).toBe(false);
+  });
+
+  it('should reject waiting when completion cannot be verified', async () => {
+    const { memory, fetchMock } = createController([404]);
+    const job = await memory.rebuildEmbeddings();
+
+    await expect(job.waitForCompletion({ interval: 1 })).rejects.toThrow('completion cannot be verified');
+    // The missing route is only requested once
+    const error = await job.waitForCompletion({ interval: 1 }).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(SekhaError);
+    expect(error).not.toBeInstanceOf(SekhaAPIError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start failed when the controller rejects the rebuild', async () => {
+    const job = new EmbeddingJob(
+      { success: false, message: 'Rebuild already running', estimated_completion_seconds: 0 },
+      vi.fn()
+    );
+
+    expect(job.done).toBe(true);
+    await expect(job.waitForCompletion()).rejects.toThrow(SekhaAPIError);
+  });
+});
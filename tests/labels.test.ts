@@ -0,0 +1,126 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const conversations = [
+  { id: 'c1', label: 'ml', folder: '/work' },
+  { id: 'c2', label: 'ml', folder: '/research/papers' },
+  { id: 'c3', label: 'machine-learning', folder: '/work' },
+  { id: 'c4', label: 'Engineering', folder: '/work/eng' },
+  { id: 'c5', label: 'Engineering', folder: '/work/eng' },
+  { id: 'c6', label: 'Engineering', folder: '/' },
+];
+
+/**
+ * Fake controller backed by the conversations above
+ */
+const createController = (stats: Record<string, unknown> = { labels: ['ml', 'machine-learning', 'Engineering'] }) => {
+  const fetchMock = vi.fn().mockImplementation((url: string, init: RequestInit) => {
+    const { pathname, searchParams } = new URL(url);
+    const label = searchParams.get('label');
+    const matching = conversations.filter(c => !label || c.label === label);
+
+    if (pathname === '/mcp/tools/memory_stats') {
+      return createMockResponse({ success: true, data: { total_conversations: 6, average_importance: 5, ...stats } });
+    }
+    if (pathname === '/api/v1/conversations/count') {
+      return createMockResponse({ count: matching.length, label });
+    }
+    if (pathname === '/api/v1/conversations' && init.method === 'GET') {
+      const offset = Number(searchParams.get('offset') ?? 0);
+      // The controller caps pages at two conversations
+      return createMockResponse({
+        results: matching.slice(offset, offset + 2),
+        total: matching.length,
+        page: 1,
+        page_size: 2,
+      });
+    }
+    return createMockResponse({});
+  });
+  const labelUpdates = () => fetchMock.mock.calls
+    .filter(([, init]) => init.method === 'PUT')
+    .map(([url, init]) => [new URL(url).pathname, JSON.parse(init.body)]);
+  return { fetchMock, labelUpdates, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+};
+
+describe('Labels', () => {
+  it('should list labels with counts, most used first', async () => {
+    const { memory } = createController();
+
+    expect(await memory.listLabels()).toEqual([
+      { label: 'Engineering', count: 3 },
+      { label: 'ml', count: 2 },
+      { label: 'machine-learning', count: 1 },
+    ]);
+  });
+
+  it('should scan conversations when memory_stats has no labels', async () => {
+    const { memory } = createController({});
+
+    const labels = await memory.listLabels();
+
+    expect(labels.map(l => l.label)).toEqual(['Engineering', 'ml', 'machine-learning']);
+  });
+
+  it('should rename a label and keep each folder', async () => {
+    const { memory, labelUpdates } = createController();
+
+    const result = await memory.renameLabel('ml', 'Machine Learning');
+
+    expect(result).toMatchObject({ success: 2, failed: 0, dryRun: false, from: ['ml'], to: 'Machine Learning' });
+    expect(labelUpdates()).toEqual([
+      ['/api/v1/conversations/c1/label', { label: 'Machine Learning', folder: '/work' }],
+      ['/api/v1/conversations/c2/label', { label: 'Machine Learning', folder: '/research/papers' }],
+    ]);
+  });
+
+  it('should plan a merge on dry run without changing anything', async () => {
+    const { memory, labelUpdates } = createController();
+
+    const plan = await memory.mergeLabels(['ml', 'machine-learning', 'Machine Learning'], 'Machine Learning', {
+      dryRun: true,
+    });
+
+    expect(plan).toMatchObject({ success: 0, failed: 0, dryRun: true, from: ['ml', 'machine-learning'] });
+    expect(plan.conversations).toEqual([
+      { id: 'c1', from: 'ml', folder: '/work' },
+      { id: 'c2', from: 'ml', folder: '/research/papers' },
+      { id: 'c3', from: 'machine-learning', folder: '/work' },
+    ]);
+    expect(labelUpdates()).toEqual([]);
+  });
+
+  it('should page through every conversation with a label', async () => {
+    const { memory, fetchMock } = createController();
+
+    const plan = await memory.renameLabel('Engineering', 'Eng', { dryRun: true });
+
+    expect(plan.conversations.map(c => c.id)).toEqual(['c4', 'c5', 'c6']);
+    expect(fetchMock.mock.calls.filter(([url]) => new URL(url).pathname === '/api/v1/conversations'))
+      .toHaveLength(2);
+  });
+
+  it('should report per-conversation failures without stopping', async () => {
+    const { memory, fetchMock } = createController();
+    const base = fetchMock.getMockImplementation()!;
+    fetchMock.mockImplementation((url: string, init: RequestInit) =>
+      url.includes('/c1/label') ? createMockErrorResponse(404, 'Conversation not found') : base(url, init)
+    );
+
+    const result = await memory.renameLabel('ml', 'ML', { concurrency: 1 });
+
+    expect(result.success).toBe(1);
+    expect(result.failed).toBe(1);
+    expect(result.errors?.[0].id).toBe('c1');
+  });
+
+  it('should reject empty labels', async () => {
+    const { memory, fetchMock } = createController();
+
+    await expect(memory.mergeLabels([], 'x')).rejects.toThrow(SekhaValidationError);
+    await expect(memory.renameLabel('ml', '')).rejects.toThrow('Invalid label');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
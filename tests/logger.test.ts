@@ -0,0 +1,158 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createLogger, redact, Logger } from '../src/logger';
+import { MemoryController } from '../src/client';
+import { BridgeClient } from '../src/bridge';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const createSink = () => ({
+  debug: vi.fn(),
+  info: vi.fn(),
+  warn: vi.fn(),
+  error: vi.fn(),
+}) satisfies Logger;
+
+const sseResponse = (lines: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(lines.join('\n') + '\n'));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+};
+
+describe('Logger', () => {
+  describe('createLogger', () => {
+    it('should filter below the configured level', () => {
+      const sink = createSink();
+      const logger = createLogger(sink, { level: 'warn' });
+
+      logger.debug('noise');
+      logger.info('noise');
+      logger.warn('kept');
+
+      expect(sink.debug).not.toHaveBeenCalled();
+      expect(sink.info).not.toHaveBeenCalled();
+      expect(sink.warn).toHaveBeenCalledWith('kept');
+    });
+
+    it('should discard everything without a sink', () => {
+      expect(() => createLogger().error('nothing', { a: 1 })).not.toThrow();
+    });
+
+    it('should scrub secret values from messages and fields', () => {
+      const sink = createSink();
+      const logger = createLogger(sink, { secrets: ['sk-secret-value'] });
+
+      logger.info('failed with sk-secret-value', { detail: 'key=sk-secret-value' });
+
+      expect(sink.info).toHaveBeenCalledWith('failed with [REDACTED]', { detail: 'key=[REDACTED]' });
+    });
+  });
+
+  describe('redact', () => {
+    it('should always redact authorization headers and API keys', () => {
+      expect(redact({
+        headers: { Authorization: 'Bearer abc', 'Content-Type': 'application/json' },
+        apiKey: 'a',
+        mcpApiKey: 'b',
+        bridgeApiKey: 'c',
+      })).toEqual({
+        headers: { Authorization: '[REDACTED]', 'Content-Type': 'application/json' },
+        apiKey: '[REDACTED]',
+        mcpApiKey: '[REDACTED]',
+        bridgeApiKey: '[REDACTED]',
+      });
+    });
+
+    it('should mask message content only when asked', () => {
+      const fields = { messages: [{ role: 'user', content: 'private' }], query: 'secret plans' };
+
+      expect(redact(fields)).toEqual(fields);
+      expect(redact(fields, { maskContent: true })).toEqual({
+        messages: [{ role: 'user', content: '[MASKED]' }],
+        query: '[MASKED]',
+      });
+    });
+
+    it('should flatten errors', () => {
+      expect(redact({ error: new TypeError('boom') })).toEqual({
+        error: { name: 'TypeError', message: 'boom' },
+      });
+    });
+  });
+
+  describe('client integration', () => {
+    it('should log request start and end without the API key', async () => {
+      const sink = createSink();
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, logger: sink, logLevel: 'debug' });
+
+      await memory.health();
+
+      expect(sink.debug).toHaveBeenCalledWith('Request started', expect.objectContaining({
+        method: 'GET',
+        url: 'http://localhost:8080/health',
+      }));
+      expect(sink.debug).toHaveBeenCalledWith('Request completed', expect.objectContaining({
+        status: 200,
+        attempts: 1,
+      }));
+      expect(JSON.stringify(sink.debug.mock.calls)).not.toContain(mockConfig.apiKey);
+    });
+
+    it('should log retries with their backoff delay', async () => {
+      const sink = createSink();
+      const fetchMock = vi.fn()
+        .mockImplementationOnce(() => createMockErrorResponse(503, 'busy'))
+        .mockImplementationOnce(() => createMockResponse({ status: 'healthy' }));
+      const memory = new MemoryController({
+        ...mockConfig,
+        fetch: fetchMock,
+        logger: sink,
+        retry: { baseDelay: 5, jitter: 'none' },
+      });
+
+      await memory.health();
+
+      expect(sink.info).toHaveBeenCalledWith('Retrying request', expect.objectContaining({
+        retry: 1,
+        delayMs: 5,
+      }));
+    });
+
+    it('should warn on response parse failures', async () => {
+      const sink = createSink();
+      const fetchMock = vi.fn().mockResolvedValue(new Response('<html>', { status: 200 }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, logger: sink, maskContent: true });
+
+      await expect(memory.health()).rejects.toThrow('Failed to parse response body');
+
+      expect(sink.warn).toHaveBeenCalledWith('Failed to parse response body', expect.objectContaining({
+        status: 200,
+        raw: '[MASKED]',
+      }));
+    });
+
+    it('should log malformed SSE chunks instead of dropping them silently', async () => {
+      const sink = createSink();
+      const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+        'data: {"id":"1","choices":[]}',
+        'data: {not json',
+        'data: [DONE]',
+      ]));
+      const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, logger: sink });
+
+      const chunks = [];
+      for await (const chunk of bridge.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        chunks.push(chunk);
+      }
+
+      expect(chunks).toHaveLength(1);
+      expect(sink.warn).toHaveBeenCalledWith('Skipping malformed SSE chunk', expect.objectContaining({
+        raw: '{not json',
+      }));
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaNotFoundError, SekhaValidationError } from '../src/errors';
+import type { Message } from '../src/types';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const messages: Message[] = [
+  { role: 'user', content: 'How do I deploy?' },
+  { role: 'assistant', content: 'Run the pipeline.' },
+  { role: 'user', content: [{ type: 'text', text: 'And this diagram?' }] },
+];
+
+describe('Conversation messages', () => {
+  describe('getMessages', () => {
+    it('should read a page from the messages route', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({
+        messages: messages.slice(1, 3),
+        total: 3,
+      }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const page = await memory.getMessages('conv_1', { limit: 2, offset: 1 });
+
+      expect(page).toEqual({ conversation_id: 'conv_1', messages: messages.slice(1, 3), total: 3, limit: 2, offset: 1 });
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/api/v1/conversations/conv_1/messages?limit=2&offset=1');
+    });
+
+    it('should fall back to memory_export and remember the missing route', async () => {
+      const fetchMock = vi.fn().mockImplementation((url: string) =>
+        url.includes('/messages')
+          ? createMockErrorResponse(404, 'Not Found')
+          : createMockResponse({ success: true, data: { conversation: { id: 'conv_1', messages } } })
+      );
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const first = await memory.getMessages('conv_1', { limit: 2 });
+      const second = await memory.getMessages('conv_1', { limit: 2, offset: 2 });
+
+      expect(first.messages).toEqual(messages.slice(0, 2));
+      expect(first.total).toBe(3);
+      expect(second.messages).toEqual(messages.slice(2));
+      expect(fetchMock.mock.calls.map(([url]) => new URL(url).pathname)).toEqual([
+        '/api/v1/conversations/conv_1/messages',
+        '/mcp/tools/memory_export',
+        '/mcp/tools/memory_export',
+      ]);
+      expect(JSON.parse(fetchMock.mock.calls[1][1].body)).toEqual({
+        conversation_id: 'conv_1',
+        format: 'json',
+        include_metadata: true,
+      });
+    });
+
+    it('should accept exported messages as JSON content', async () => {
+      const fetchMock = vi.fn()
+        .mockImplementationOnce(() => createMockErrorResponse(405, 'Method Not Allowed'))
+        .mockImplementationOnce(() => createMockResponse({
+          success: true,
+          data: { content: JSON.stringify({ messages }) },
+        }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const page = await memory.getMessages('conv_1');
+
+      expect(page.messages).toEqual(messages);
+    });
+
+    it('should report a missing conversation when the export fails too', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockErrorResponse(404, 'Conversation not found'));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      await expect(memory.getMessages('missing')).rejects.toThrow(SekhaNotFoundError);
+      await memory.getMessages('missing').catch(() => undefined);
+
+      // The route was not marked missing, so REST is tried again
+      expect(new URL(fetchMock.mock.calls[2][0]).pathname).toBe('/api/v1/conversations/missing/messages');
+    });
+  });
+
+  describe('appendMessages', () => {
+    it('should post new turns with an idempotency key', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({}, 201));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      await memory.appendMessages('conv_1', messages.slice(0, 2), { idempotencyKey: 'turn-7' });
+
+      const [url, init] = fetchMock.mock.calls[0];
+      expect(url).toBe('http://localhost:8080/api/v1/conversations/conv_1/messages');
+      expect(init.method).toBe('POST');
+      expect(init.headers['Idempotency-Key']).toBe('turn-7');
+      expect(JSON.parse(init.body)).toEqual({ messages: messages.slice(0, 2) });
+    });
+
+    it('should reject empty or malformed messages', async () => {
+      const fetchMock = vi.fn();
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      await expect(memory.appendMessages('conv_1', [])).rejects.toThrow(SekhaValidationError);
+      await expect(memory.appendMessages('conv_1', [{ role: 'robot', content: 'hi' } as never]))
+        .rejects.toThrow('Invalid message');
+      expect(fetchMock).not.toHaveBeenCalled();
+    });
+  });
+});
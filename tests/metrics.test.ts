@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MetricsRegistry } from '../src/metrics';
+import { RateLimiter } from '../src/ratelimit';
+import { MemoryController } from '../src/client';
+import { MCPClient } from '../src/mcp';
+import { BridgeClient } from '../src/bridge';
+import { SekhaClient } from '../src/unified';
+import { SekhaNotFoundError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+describe('Metrics', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('MetricsRegistry', () => {
+    it('should count requests, errors and latency per endpoint', () => {
+      const metrics = new MetricsRegistry({ buckets: [0.1, 1] });
+
+      metrics.recordRequest('controller', '/health', 'GET', 50);
+      metrics.recordRequest('controller', '/health', 'GET', 500, new SekhaNotFoundError('missing'));
+
+      const [endpoint] = metrics.snapshot().endpoints;
+      expect(endpoint).toMatchObject({
+        service: 'controller',
+        endpoint: '/health',
+        method: 'GET',
+        requests: 2,
+        errors: 1,
+        errorsByType: { SekhaNotFoundError: 1 },
+        retries: 0,
+      });
+      expect(endpoint.latency).toEqual({
+        buckets: [{ le: 0.1, count: 1 }, { le: 1, count: 2 }],
+        sum: 0.55,
+        count: 2,
+      });
+    });
+
+    it('should sum token usage per model', () => {
+      const metrics = new MetricsRegistry();
+
+      metrics.recordTokens('bridge', 'gpt-4', { prompt: 10, completion: 5 });
+      metrics.recordTokens('bridge', 'gpt-4', { prompt: 1, completion: 1, total: 2 });
+
+      expect(metrics.snapshot().tokens).toEqual([
+        { service: 'bridge', model: 'gpt-4', promptTokens: 11, completionTokens: 6, totalTokens: 17 },
+      ]);
+    });
+
+    it('should render Prometheus text format', () => {
+      const metrics = new MetricsRegistry({ buckets: [0.5] });
+
+      metrics.recordRequest('mcp', '/mcp/tools/memory_search', 'POST', 250, new TypeError('boom'));
+      metrics.recordRetry('mcp', '/mcp/tools/memory_search', 'POST');
+      metrics.recordRateLimitWait('mcp', 'search', 1500);
+
+      const text = metrics.toPrometheus();
+      const labels = 'service="mcp",endpoint="/mcp/tools/memory_search",method="POST"';
+
+      expect(text).toContain('# TYPE sekha_sdk_requests_total counter');
+      expect(text).toContain(`sekha_sdk_requests_total{${labels}} 1`);
+      expect(text).toContain(`sekha_sdk_request_errors_total{${labels},error="TypeError"} 1`);
+      expect(text).toContain(`sekha_sdk_retries_total{${labels}} 1`);
+      expect(text).toContain('# TYPE sekha_sdk_request_duration_seconds histogram');
+      expect(text).toContain(`sekha_sdk_request_duration_seconds_bucket{${labels},le="0.5"} 1`);
+      expect(text).toContain(`sekha_sdk_request_duration_seconds_bucket{${labels},le="+Inf"} 1`);
+      expect(text).toContain(`sekha_sdk_request_duration_seconds_sum{${labels}} 0.25`);
+      expect(text).toContain('sekha_sdk_rate_limit_wait_seconds_total{service="mcp",endpoint_class="search"} 1.5');
+      expect(text.endsWith('\n')).toBe(true);
+    });
+
+    it('should clear everything on reset()', () => {
+      const metrics = new MetricsRegistry();
+      metrics.recordRequest('bridge', '/health', 'GET', 1);
+
+      metrics.reset();
+
+      expect(metrics.snapshot()).toEqual({ endpoints: [], rateLimitWaits: [], tokens: [] });
+    });
+  });
+
+  describe('client integration', () => {
+    it('should record controller requests by route, with retries and errors', async () => {
+      const metrics = new MetricsRegistry();
+      const fetchMock = vi.fn()
+        .mockImplementationOnce(() => createMockResponse({ id: 'conv_1' }))
+        .mockImplementationOnce(() => createMockErrorResponse(503, 'busy'))
+        .mockImplementationOnce(() => createMockErrorResponse(404, 'missing'));
+      const memory = new MemoryController({
+        ...mockConfig,
+        fetch: fetchMock,
+        metrics,
+        retry: { baseDelay: 1, jitter: 'none' },
+      });
+
+      await memory.get('conv_1');
+      await expect(memory.get('conv_2')).rejects.toThrow(SekhaNotFoundError);
+
+      const [endpoint] = metrics.snapshot().endpoints;
+      expect(endpoint).toMatchObject({
+        service: 'controller',
+        endpoint: '/api/v1/conversations/{id}',
+        method: 'GET',
+        requests: 2,
+        errors: 1,
+        errorsByType: { SekhaNotFoundError: 1 },
+        retries: 1,
+      });
+    });
+
+    it('should keep count() separate from get(id)', async () => {
+      const metrics = new MetricsRegistry();
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ id: 'conv_1', count: 1 }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, metrics });
+
+      await memory.get('conv_1');
+      await memory.count({ label: 'Work' });
+
+      expect(metrics.snapshot().endpoints.map(e => [e.endpoint, e.requests])).toEqual([
+        ['/api/v1/conversations/{id}', 1],
+        ['/api/v1/conversations/count', 1],
+      ]);
+    });
+
+    it('should record rate limiter waits by endpoint class', async () => {
+      vi.useFakeTimers();
+      const metrics = new MetricsRegistry();
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ success: true, data: {} }));
+      const mcp = new MCPClient({
+        baseURL: 'http://localhost:8080',
+        apiKey: mockConfig.apiKey,
+        fetch: fetchMock,
+        metrics,
+        rateLimiter: new RateLimiter({ requestsPerMinute: 60, burst: 1 }),
+      });
+
+      await mcp.memorySearch('first');
+      const second = mcp.memorySearch('second');
+      await vi.advanceTimersByTimeAsync(1000);
+      await second;
+
+      const [wait] = metrics.snapshot().rateLimitWaits;
+      expect(wait).toMatchObject({ service: 'mcp', endpointClass: 'search', waits: 1 });
+      expect(wait.totalMs).toBeGreaterThan(0);
+    });
+
+    it('should record bridge token usage from usage and tokens_used', async () => {
+      const metrics = new MetricsRegistry();
+      const fetchMock = vi.fn()
+        .mockImplementationOnce(() => createMockResponse({
+          id: 'cmpl_1',
+          model: 'gpt-4',
+          choices: [],
+          usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 },
+        }))
+        .mockImplementationOnce(() => createMockResponse({
+          summary: 'Short',
+          level: 'daily',
+          model: 'gpt-4',
+          tokens_used: 8,
+        }));
+      const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, metrics });
+
+      await bridge.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+      await bridge.summarize({ messages: ['Hi'], level: 'daily' });
+
+      expect(metrics.snapshot().tokens).toEqual([
+        { service: 'bridge', model: 'gpt-4', promptTokens: 12, completionTokens: 30, totalTokens: 50 },
+      ]);
+    });
+
+    it('should record token usage reported on the last stream chunk', async () => {
+      const metrics = new MetricsRegistry();
+      const usage = { id: 'cmpl_1', model: 'gpt-4', choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } };
+      const fetchMock = vi.fn().mockResolvedValue(new Response(`data: ${JSON.stringify(usage)}\n\ndata: [DONE]\n\n`));
+      const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, metrics });
+
+      for await (const chunk of bridge.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+        void chunk;
+      }
+
+      expect(metrics.snapshot().tokens).toEqual([
+        { service: 'bridge', model: 'gpt-4', promptTokens: 5, completionTokens: 7, totalTokens: 12 },
+      ]);
+    });
+
+    it('should share one registry across the clients of SekhaClient', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+      const sekha = new SekhaClient({
+        controllerURL: 'http://localhost:8080',
+        bridgeURL: 'http://localhost:5001',
+        apiKey: mockConfig.apiKey,
+        fetch: fetchMock,
+      });
+
+      await sekha.controller.health();
+      await sekha.bridge.health();
+
+      expect(sekha.metrics.snapshot().endpoints.map(endpoint => endpoint.service)).toEqual([
+        'controller',
+        'bridge',
+      ]);
+    });
+  });
+});
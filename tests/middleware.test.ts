@@ -0,0 +1,142 @@
+import { describe, it, expect, vi } from 'vitest';
+import { applyMiddleware, withHeaders, Middleware } from '../src/middleware';
+import { MemoryController } from '../src/client';
+import { MCPClient } from '../src/mcp';
+import { BridgeClient } from '../src/bridge';
+import { SekhaNotFoundError, SekhaServiceUnavailableError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+describe('Middleware', () => {
+  it('should run middleware in order around the transport', async () => {
+    const calls: string[] = [];
+    const transport = {
+      send: vi.fn(async () => {
+        calls.push('transport');
+        return createMockResponse({});
+      }),
+    };
+    const first: Middleware = async (request, next) => {
+      calls.push('first:before');
+      const response = await next(request);
+      calls.push('first:after');
+      return response;
+    };
+    const second: Middleware = async (request, next) => {
+      calls.push('second:before');
+      const response = await next(request);
+      calls.push('second:after');
+      return response;
+    };
+
+    await applyMiddleware(transport, [first, second]).send({
+      method: 'GET',
+      url: 'http://localhost:8080/health',
+      headers: {},
+    });
+
+    expect(calls).toEqual([
+      'first:before',
+      'second:before',
+      'transport',
+      'second:after',
+      'first:after',
+    ]);
+  });
+
+  it('should let middleware rewrite outgoing requests', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+    const memory = new MemoryController({
+      ...mockConfig,
+      fetch: fetchMock,
+      middleware: [
+        withHeaders({ 'X-Tenant-ID': 'acme' }),
+        async (request, next) => next({ ...request, url: request.url.replace('/health', '/healthz') }),
+      ],
+    });
+
+    await memory.health();
+
+    expect(fetchMock).toHaveBeenCalledWith(
+      'http://localhost:8080/healthz',
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          'X-Tenant-ID': 'acme',
+          'Authorization': `Bearer ${mockConfig.apiKey}`,
+        }),
+      })
+    );
+  });
+
+  it('should allow overriding the Authorization header', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+    const bridge = new BridgeClient({
+      baseURL: 'http://localhost:5001',
+      fetch: fetchMock,
+      middleware: [withHeaders(async () => ({ Authorization: 'Bearer rotated-token' }))],
+    });
+
+    await bridge.health();
+
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer rotated-token');
+  });
+
+  it('should short-circuit without calling fetch', async () => {
+    const fetchMock = vi.fn();
+    const cached: Middleware = async () => createMockResponse({
+      success: true,
+      data: { total_conversations: 42, average_importance: 5 },
+    });
+    const mcp = new MCPClient({
+      baseURL: 'http://localhost:8080',
+      apiKey: mockConfig.apiKey,
+      fetch: fetchMock,
+      middleware: [cached],
+    });
+
+    const stats = await mcp.memoryStats();
+
+    expect(stats.data?.total_conversations).toBe(42);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should map non-2xx short-circuit responses to errors', async () => {
+    const fetchMock = vi.fn();
+    const memory = new MemoryController({
+      ...mockConfig,
+      fetch: fetchMock,
+      middleware: [async () => createMockErrorResponse(404, 'Conversation not cached')],
+    });
+    const bridge = new BridgeClient({
+      baseURL: 'http://localhost:5001',
+      fetch: fetchMock,
+      middleware: [async () => createMockErrorResponse(503, 'Maintenance')],
+    });
+
+    await expect(memory.get('conv_1')).rejects.toThrow(SekhaNotFoundError);
+    await expect(bridge.health()).rejects.toThrow('Bridge unavailable: Maintenance');
+    await expect(bridge.health()).rejects.toThrow(SekhaServiceUnavailableError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should surface errors to middleware as rejections', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockErrorResponse(404, 'Not found'));
+    const seen: unknown[] = [];
+    const memory = new MemoryController({
+      ...mockConfig,
+      fetch: fetchMock,
+      middleware: [
+        async (request, next) => {
+          try {
+            return await next(request);
+          } catch (error) {
+            seen.push(error);
+            throw error;
+          }
+        },
+      ],
+    });
+
+    await expect(memory.get('missing')).rejects.toThrow(SekhaNotFoundError);
+    expect(seen[0]).toBeInstanceOf(SekhaNotFoundError);
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaAbortError, SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+const result = (n: number) => ({
+  conversation_id: `conv_${n}`,
+  message_id: `msg_${n}`,
+  score: 1 - n / 100,
+  content: `Result ${n}`,
+  metadata: {},
+  label: 'Test',
+  folder: '/tests',
+  timestamp: '2026-01-01T00:00:00Z',
+});
+
+const ftsMessage = (n: number) => ({
+  id: `msg_${n}`,
+  conversation_id: `conv_${n}`,
+  role: 'user',
+  content: `Match ${n}`,
+  timestamp: '2026-01-01T00:00:00Z',
+  rank: n,
+});
+
+const range = (start: number, end: number) => Array.from({ length: end - start }, (_, i) => start + i);
+
+const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+};
+
+describe('Pagination', () => {
+  describe('listAll', () => {
+    it('should page with limit/offset until total is reached', async () => {
+      const fetchMock = vi.fn().mockImplementation((url: string) => {
+        const params = new URL(url).searchParams;
+        const offset = Number(params.get('offset') ?? 0);
+        const limit = Number(params.get('limit'));
+        const ids = range(offset, Math.min(offset + limit, 5));
+        return createMockResponse({ results: ids.map(result), total: 5, page: 1, page_size: limit });
+      });
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const items = await collect(memory.listAll({ folder: '/tests' }, { pageSize: 2 }));
+
+      expect(items.map(item => item.conversation_id)).toEqual(range(0, 5).map(n => `conv_${n}`));
+      expect(fetchMock).toHaveBeenCalledTimes(3);
+      expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8080/api/v1/conversations?folder=%2Ftests&limit=2');
+      expect(fetchMock.mock.calls[2][0]).toContain('limit=2&offset=4');
+    });
+
+    it('should stop on an empty page when total is missing', async () => {
+      const fetchMock = vi.fn()
+        .mockImplementationOnce(() => createMockResponse({ results: [result(0), result(1)] }))
+        .mockImplementationOnce(() => createMockResponse({ results: [] }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const items = await collect(memory.listAll({}, { pageSize: 2 }));
+
+      expect(items).toHaveLength(2);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('queryAll', () => {
+    it('should respect maxItems and keep search options', async () => {
+      const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        const { offset, limit } = JSON.parse(init.body as string);
+        return createMockResponse({
+          results: range(offset, offset + limit).map(result),
+          total: 100,
+          page: 1,
+          page_size: limit,
+        });
+      });
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const items = await collect(memory.queryAll('design', {
+        filters: { label: 'Engineering' },
+        pageSize: 4,
+        maxItems: 6,
+      }));
+
+      expect(items).toHaveLength(6);
+      const bodies = fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+      expect(bodies).toEqual([
+        { query: 'design', limit: 4, offset: 0, filters: { label: 'Engineering' } },
+        { query: 'design', limit: 2, offset: 4, filters: { label: 'Engineering' } },
+      ]);
+    });
+
+    it('should stop when the signal is aborted between pages', async () => {
+      const controller = new AbortController();
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({
+        results: [result(0), result(1)],
+        total: 10,
+        page: 1,
+        page_size: 2,
+      }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const seen: string[] = [];
+      await expect((async () => {
+        for await (const item of memory.queryAll('design', { pageSize: 2, signal: controller.signal })) {
+          seen.push(item.conversation_id);
+          controller.abort();
+        }
+      })()).rejects.toThrow(SekhaAbortError);
+
+      expect(seen).toEqual(['conv_0', 'conv_1']);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject invalid page sizes', async () => {
+      const memory = new MemoryController({ ...mockConfig, fetch: vi.fn() });
+
+      await expect(collect(memory.queryAll('design', { pageSize: 0 }))).rejects.toThrow(SekhaValidationError);
+    });
+  });
+
+  describe('searchFTSAll', () => {
+    it('should grow the limit and yield only new matches', async () => {
+      const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        const { limit } = JSON.parse(init.body as string);
+        return createMockResponse({ results: range(0, Math.min(limit, 3)).map(ftsMessage), total: 3 });
+      });
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+      const items = await collect(memory.searchFTSAll('kubernetes', { pageSize: 2 }));
+
+      expect(items.map(item => item.id)).toEqual(['msg_0', 'msg_1', 'msg_2']);
+      expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body).limit)).toEqual([2, 4]);
+    });
+  });
+});
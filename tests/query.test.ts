@@ -0,0 +1,130 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { QueryBuilder } from '../src/query';
+import { SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+const emptyPage = { results: [], total: 0, page: 1, page_size: 10 };
+
+describe('QueryBuilder', () => {
+  const setup = () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse(emptyPage));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+    const bodies = () => fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body));
+    return { fetchMock, memory, bodies };
+  };
+
+  it('should build a typed QueryRequest from chained calls', () => {
+    const { memory } = setup();
+
+    const request = memory.searchBuilder('deployment')
+      .inFolder('/work')
+      .withLabels(['DevOps'])
+      .withLabels(['Infra'])
+      .importanceAtLeast(6)
+      .since(new Date('2026-01-01T00:00:00Z'))
+      .sortBy('updated_at')
+      .limit(20)
+      .toRequest();
+
+    expect(request).toEqual({
+      query: 'deployment',
+      filters: {
+        folder: '/work',
+        labels: ['DevOps', 'Infra'],
+        importance_min: 6,
+        date_from: '2026-01-01T00:00:00.000Z',
+      },
+      sort: { field: 'updated_at', order: 'desc' },
+      limit: 20,
+    });
+  });
+
+  it('should keep search() a plain promise', async () => {
+    const { memory, fetchMock } = setup();
+
+    const pending = memory.search('deployment', { limit: 5 });
+
+    expect(pending).toBeInstanceOf(Promise);
+    await expect(pending.finally(() => undefined)).resolves.toEqual(emptyPage);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run via execute() and when awaited', async () => {
+    const { memory, bodies } = setup();
+    const query = memory.searchBuilder('deployment').inFolder('/work').limit(5);
+
+    await query.execute();
+    const response = await query;
+
+    expect(response.total).toBe(0);
+    expect(bodies()).toEqual([
+      { query: 'deployment', limit: 5, offset: 0, filters: { folder: '/work' } },
+      { query: 'deployment', limit: 5, offset: 0, filters: { folder: '/work' } },
+    ]);
+  });
+
+  it('should be immutable so a base query can be reused', () => {
+    const { memory } = setup();
+    const base = memory.searchBuilder('deployment').inFolder('/work');
+
+    const important = base.importanceAtLeast(8);
+
+    expect(base.toRequest().filters).toEqual({ folder: '/work' });
+    expect(important.toRequest().filters).toEqual({ folder: '/work', importance_min: 8 });
+  });
+
+  it('should round-trip through JSON', async () => {
+    const { memory, bodies } = setup();
+    const saved = JSON.stringify(memory.searchBuilder('deployment').withStatus('active').until('2026-03-01').limit(3));
+
+    const restored = QueryBuilder.fromJSON(memory, saved);
+    await memory.searchBuilder(JSON.parse(saved));
+    await restored;
+
+    expect(JSON.parse(saved)).toEqual({
+      query: 'deployment',
+      filters: { status: 'active', date_to: '2026-03-01' },
+      limit: 3,
+    });
+    expect(bodies()[0]).toEqual(bodies()[1]);
+  });
+
+  it('should reject malformed saved queries', () => {
+    const { memory } = setup();
+
+    expect(() => QueryBuilder.fromJSON(memory, '{nope')).toThrow(SekhaValidationError);
+    expect(() => QueryBuilder.fromJSON(memory, '{"query":"x","colour":"blue"}')).toThrow('Invalid saved query');
+    expect(() => QueryBuilder.fromJSON(memory, '{"query":"x","filters":{"tag":"a"}}')).toThrow(SekhaValidationError);
+  });
+
+  it('should reject invalid values on execute', async () => {
+    const { memory, fetchMock } = setup();
+
+    await expect(memory.searchBuilder('x').limit(0).execute()).rejects.toThrow(SekhaValidationError);
+    await expect(memory.searchBuilder('x').since(new Date('not a date'))).rejects.toThrow(SekhaValidationError);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('should page through results with iterate()', async () => {
+    const fetchMock = vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+      const { offset } = JSON.parse(init.body as string);
+      const results = offset < 4
+        ? [0, 1].map(i => ({ conversation_id: `conv_${offset + i}`, message_id: 'm', score: 1 }))
+        : [];
+      return createMockResponse({ results, total: 4, page: 1, page_size: 2 });
+    });
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    const ids: string[] = [];
+    for await (const result of memory.searchBuilder('deployment').inFolder('/work').limit(2).iterate()) {
+      ids.push(result.conversation_id);
+    }
+
+    expect(ids).toEqual(['conv_0', 'conv_1', 'conv_2', 'conv_3']);
+    expect(fetchMock.mock.calls.map(([, init]) => JSON.parse(init.body))).toEqual([
+      { query: 'deployment', limit: 2, offset: 0, filters: { folder: '/work' } },
+      { query: 'deployment', limit: 2, offset: 2, filters: { folder: '/work' } },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { RateLimiter } from '../src/ratelimit';
+import { MemoryController } from '../src/client';
+import { SekhaClient } from '../src/unified';
+import { SekhaAbortError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+/**
+ * Freeze Date.now and make setTimeout advance the clock instantly
+ */
+const useFakeClock = (start = 1_000_000) => {
+  const clock = { now: start };
+  vi.spyOn(Date, 'now').mockImplementation(() => clock.now);
+  vi.spyOn(global, 'setTimeout').mockImplementation((fn: any, ms?: number) => {
+    if (ms) clock.now += ms;
+    fn();
+    return {} as NodeJS.Timeout;
+  });
+  return clock;
+};
+
+const jsonResponse = (data: unknown, headers: Record<string, string> = {}, status = 200) =>
+  new Response(JSON.stringify(data), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+describe('RateLimiter', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should allow a burst then refill at the sustained rate', async () => {
+    useFakeClock();
+    const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 2 });
+
+    expect(await limiter.acquire()).toBe(0);
+    expect(await limiter.acquire()).toBe(0);
+    expect(await limiter.acquire()).toBe(1000);
+  });
+
+  it('should keep endpoint classes in separate buckets', async () => {
+    useFakeClock();
+    const limiter = new RateLimiter({
+      requestsPerMinute: 600,
+      classes: { search: { requestsPerMinute: 60, burst: 1 } },
+    });
+
+    expect(await limiter.acquire('search')).toBe(0);
+    expect(await limiter.acquire('write')).toBe(0);
+    expect(await limiter.acquire('search')).toBe(1000);
+  });
+
+  it('should pause when the server reports an exhausted window', async () => {
+    useFakeClock();
+    const limiter = new RateLimiter({ requestsPerMinute: 600 });
+
+    limiter.observe(new Headers({ 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '5' }), 200);
+
+    expect(await limiter.acquire()).toBe(5000);
+  });
+
+  it('should cap local tokens to the remaining count', async () => {
+    useFakeClock();
+    const limiter = new RateLimiter({ requestsPerMinute: 60 });
+
+    limiter.observe(new Headers({ 'X-RateLimit-Remaining': '1' }), 200);
+
+    expect(await limiter.acquire()).toBe(0);
+    expect(await limiter.acquire()).toBeGreaterThan(0);
+  });
+
+  it('should ignore headers when adaptive is disabled', async () => {
+    useFakeClock();
+    const limiter = new RateLimiter({ requestsPerMinute: 60, adaptive: false });
+
+    limiter.observe(new Headers({ 'Retry-After': '30' }), 429);
+
+    expect(await limiter.acquire()).toBe(0);
+  });
+
+  it('should reject a wait when the signal aborts', async () => {
+    const limiter = new RateLimiter({ requestsPerMinute: 1 });
+    await limiter.acquire();
+
+    const controller = new AbortController();
+    const waiting = limiter.acquire(undefined, controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toThrow(SekhaAbortError);
+  });
+
+  describe('client integration', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should acquire a token for every retry attempt', async () => {
+      vi.useFakeTimers();
+      const limiter = new RateLimiter();
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse({ error: 'slow down' }, { 'Retry-After': '2' }, 429))
+        .mockResolvedValueOnce(jsonResponse({ status: 'healthy' }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, rateLimiter: limiter });
+      const acquire = vi.spyOn(limiter, 'acquire');
+
+      const health = memory.health();
+      await vi.advanceTimersByTimeAsync(2000);
+      await health;
+
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+      expect(acquire).toHaveBeenCalledTimes(2);
+    });
+
+    it('should share one limiter between controller and MCP', async () => {
+      vi.useFakeTimers();
+      const limiter = new RateLimiter({ requestsPerMinute: 60, burst: 1 });
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ success: true, data: {} }));
+      const sekha = new SekhaClient({
+        controllerURL: 'http://localhost:8080',
+        bridgeURL: 'http://localhost:5001',
+        apiKey: mockConfig.apiKey,
+        fetch: fetchMock,
+        rateLimiter: limiter,
+      });
+
+      await sekha.controller.health();
+      let done = false;
+      const stats = sekha.mcp.memoryStats({}).then(() => { done = true; });
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(500);
+      await stats;
+      expect(done).toBe(true);
+    });
+
+    it('should throttle MCP with the controller limiter by default', async () => {
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ success: true, data: {} }));
+      const sekha = new SekhaClient({
+        controllerURL: 'http://localhost:8080',
+        bridgeURL: 'http://localhost:5001',
+        apiKey: mockConfig.apiKey,
+        fetch: fetchMock,
+        rateLimit: 100,
+      });
+      const acquire = vi.spyOn(sekha.controller.rateLimiter, 'acquire');
+
+      await sekha.mcp.memoryStats({});
+
+      expect(acquire).toHaveBeenCalledWith('read', undefined);
+    });
+
+    it('should classify search requests separately from writes', async () => {
+      const limiter = new RateLimiter({
+        requestsPerMinute: 600,
+        classes: { search: { requestsPerMinute: 60, burst: 2 } },
+      });
+      const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ results: [], total: 0 }));
+      const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, rateLimiter: limiter });
+      const acquire = vi.spyOn(limiter, 'acquire');
+
+      await memory.query('one');
+      await memory.searchFTS('two');
+      await memory.updateLabel('conv_1', 'x');
+
+      expect(acquire.mock.calls.map(call => call[0])).toEqual(['search', 'search', 'write']);
+    });
+  });
+});
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { parseRetentionPolicy, evaluateRetention } from '../src/retention';
+import type { RetentionCandidate, RetentionAuditEntry } from '../src/retention';
+import { SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+const now = new Date('2026-10-19T00:00:00Z');
+const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const candidate = (id: string, overrides: Partial<RetentionCandidate> = {}): RetentionCandidate => ({
+  conversationId: id,
+  label: 'General',
+  folder: '/work',
+  lastAccessed: daysAgo(100),
+  importance: 3,
+  tokens: 1000,
+  ...overrides,
+});
+
+describe('Retention policies', () => {
+  describe('parseRetentionPolicy', () => {
+    it('should accept JSON and normalize folder rules', () => {
+      const policy = parseRetentionPolicy('{"name":"team","folderMaxAgeDays":{"/scratch/":7}}');
+
+      expect(policy.name).toBe('team');
+      expect(policy.folderMaxAgeDays).toEqual({ '/scratch': 7 });
+    });
+
+    it('should reject unknown fields, bad values and empty policies', () => {
+      const detailsOf = (input: unknown) => {
+        try {
+          parseRetentionPolicy(input as never);
+        } catch (error: unknown) {
+          return (error as SekhaValidationError).details;
+        }
+      };
+
+      expect(detailsOf({ maxAge: 30 })).toMatch(/^"maxAge" is not supported/);
+      expect(detailsOf({ maxAgeDays: 30, minImportance: 11 })).toBe('minImportance must be between 1 and 10');
+      expect(detailsOf({ keepLabels: ['Decisions'] })).toMatch(/at least one of/);
+      expect(() => parseRetentionPolicy({ maxAgeDays: -1 })).toThrow(SekhaValidationError);
+      expect(() => parseRetentionPolicy('{not json')).toThrow(SekhaValidationError);
+    });
+  });
+
+  describe('evaluateRetention', () => {
+    it('should let keep rules win over age rules', () => {
+      const policy = parseRetentionPolicy({ maxAgeDays: 30, keepLabels: ['Decisions'], minImportance: 8 });
+
+      const plan = evaluateRetention(policy, [
+        candidate('old'),
+        candidate('decision', { label: 'Decisions' }),
+        candidate('important', { importance: 9 }),
+        candidate('recent', { lastAccessed: daysAgo(10) }),
+      ], now);
+
+      expect(plan.archive.map(d => [d.conversationId, d.rule])).toEqual([['old', 'maxAge']]);
+      expect(plan.archive[0].reason).toBe('Not accessed for 100 days; limit is 30 days');
+      expect(plan.keep.map(d => [d.conversationId, d.rule])).toEqual([
+        ['decision', 'keepLabel'],
+        ['important', 'minImportance'],
+        ['recent', 'none'],
+      ]);
+      expect(plan.tokenSavings).toBe(1000);
+    });
+
+    it('should apply the most specific folder rule', () => {
+      const policy = parseRetentionPolicy({
+        maxAgeDays: 365,
+        folderMaxAgeDays: { '/work': 60, '/work/legal': 3650 },
+      });
+
+      const plan = evaluateRetention(policy, [
+        candidate('work', { folder: '/work/eng' }),
+        candidate('legal', { folder: '/work/legal/contracts' }),
+        candidate('personal', { folder: '/personal' }),
+      ], now);
+
+      expect(plan.archive.map(d => [d.conversationId, d.rule])).toEqual([['work', 'folderMaxAge']]);
+      expect(plan.archive[0].reason).toBe('Not accessed for 100 days; /work keeps 60 days');
+    });
+
+    it('should archive the least important, oldest conversations over the token budget', () => {
+      const policy = parseRetentionPolicy({ maxTokens: 2500, keepLabels: ['Pinned'] });
+
+      const plan = evaluateRetention(policy, [
+        candidate('a', { importance: 5, lastAccessed: daysAgo(5) }),
+        candidate('b', { importance: 2, lastAccessed: daysAgo(5) }),
+        candidate('c', { importance: 2, lastAccessed: daysAgo(50) }),
+        candidate('kept', { label: 'Pinned', importance: 1 }),
+      ], now);
+
+      expect(plan.archive.map(d => d.conversationId)).toEqual(['b', 'c']);
+      expect(plan.archive.every(d => d.rule === 'maxTokens')).toBe(true);
+      expect(plan.tokensRetained).toBe(2000);
+    });
+  });
+
+  describe('MemoryController', () => {
+    const suggestions = [
+      { conversation_id: 'c1', conversation_label: 'General', last_accessed: daysAgo(40), token_estimate: 500, importance_score: 3 },
+      { conversation_id: 'c2', conversation_label: 'General', last_accessed: daysAgo(40), token_estimate: 700, importance_score: 4 },
+      { conversation_id: 'c3', conversation_label: 'General', last_accessed: daysAgo(40), token_estimate: 900, importance_score: 2 },
+    ];
+    const folders: Record<string, string> = { c1: '/scratch', c2: '/work', c3: '/scratch/tmp' };
+    const listing = [
+      ...suggestions.map(s => ({ id: s.conversation_id, label: 'General', folder: folders[s.conversation_id], status: 'active' })),
+      // Importance 10 is never suggested
+      { id: 'c4', label: 'Design', folder: 'work', status: 'active', importance_score: 10, word_count: 3000, updated_at: daysAgo(2) },
+      { id: 'c5', label: 'Old', folder: '/work', status: 'archived', importance_score: 1, word_count: 9000 },
+    ];
+
+    const createController = (failExecute = false, conversations: object[] = listing) => {
+      const fetchMock = vi.fn().mockImplementation((url: string) => {
+        const { pathname } = new URL(url);
+        if (pathname === '/api/v1/prune/dry-run') {
+          return createMockResponse({ suggestions, total: suggestions.length });
+        }
+        if (pathname === '/api/v1/prune/execute') {
+          return failExecute ? createMockErrorResponse(404, 'Conversation not found') : createMockResponse({});
+        }
+        if (pathname === '/api/v1/conversations') {
+          return createMockResponse({ results: conversations, total: conversations.length, page: 1, page_size: 100 });
+        }
+        const id = pathname.split('/').pop() as string;
+        return createMockResponse({ id, folder: folders[id] });
+      });
+      return { fetchMock, memory: new MemoryController({ ...mockConfig, fetch: fetchMock }) };
+    };
+
+    it('should plan from pruning suggestions and conversation folders', async () => {
+      const { memory, fetchMock } = createController();
+
+      const plan = await memory.planRetention({ name: 'scratch', folderMaxAgeDays: { '/scratch': 7 } }, { now });
+
+      expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ threshold_days: 7, importance_threshold: 10 });
+      expect(plan.policy).toBe('scratch');
+      expect(plan.archive.map(d => [d.conversationId, d.folder])).toEqual([['c1', '/scratch'], ['c3', '/scratch/tmp']]);
+      expect(plan.keep.map(d => d.conversationId)).toEqual(['c2']);
+    });
+
+    it('should archive in batches and write an audit log', async () => {
+      const { memory, fetchMock } = createController();
+      const plan = await memory.planRetention({ name: 'age', maxAgeDays: 30 }, { now });
+      const audited: RetentionAuditEntry[] = [];
+
+      const result = await memory.applyRetention(plan, { batchSize: 2, onAudit: entry => audited.push(entry) });
+
+      const batches = fetchMock.mock.calls
+        .filter(([url]) => url.endsWith('/prune/execute'))
+        .map(([, init]) => JSON.parse(init.body).conversation_ids);
+      expect(batches).toEqual([['c1', 'c2'], ['c3']]);
+      expect(result).toMatchObject({ success: 3, failed: 0, succeeded: ['c1', 'c2', 'c3'] });
+      expect(result.audit).toEqual(audited);
+      expect(audited[2]).toMatchObject({
+        conversationId: 'c3',
+        policy: 'age',
+        rule: 'maxAge',
+        reason: 'Not accessed for 40 days; limit is 30 days',
+        batch: 1,
+      });
+    });
+
+    it('should record failed batches without audit entries', async () => {
+      const { memory } = createController(true);
+      const plan = await memory.planRetention({ maxAgeDays: 30 }, { now });
+
+      const result = await memory.applyRetention(plan);
+
+      expect(result.success).toBe(0);
+      expect(result.failed).toBe(3);
+      expect(result.errors?.map(e => e.index)).toEqual([0, 1, 2]);
+      expect(result.audit).toEqual([]);
+    });
+
+    it('should apply a token budget to every conversation, not only suggestions', async () => {
+      const { memory, fetchMock } = createController();
+
+      const plan = await memory.planRetention({ maxTokens: 4500 }, { now });
+
+      expect(fetchMock.mock.calls.some(([url]) => new URL(url).pathname === '/api/v1/conversations')).toBe(true);
+      expect(plan.archive.map(d => d.conversationId)).toEqual(['c1', 'c2', 'c3']);
+      expect(plan.keep).toEqual([
+        expect.objectContaining({ conversationId: 'c4', folder: '/work', importance: 10, tokens: 4000 }),
+      ]);
+      expect(plan.tokensRetained).toBe(4000);
+    });
+
+    it('should keep pinned conversations under a token budget', async () => {
+      const pinned = { id: 'c6', label: 'General', status: 'pinned', importance_score: 1, word_count: 6000, updated_at: daysAgo(400) };
+      const { memory } = createController(false, [...listing, pinned]);
+
+      const plan = await memory.planRetention({ maxTokens: 4500, maxAgeDays: 30 }, { now });
+
+      // The pinned tokens alone exceed the budget, so everything else goes
+      expect(plan.archive.map(d => d.conversationId).sort()).toEqual(['c1', 'c2', 'c3', 'c4']);
+      expect(plan.keep).toEqual([expect.objectContaining({ conversationId: 'c6', rule: 'pinned', tokens: 8000 })]);
+      expect(plan.tokensRetained).toBe(8000);
+    });
+
+    it('should stop on abort and report the remaining conversations as skipped', async () => {
+      const { memory, fetchMock } = createController();
+      const plan = await memory.planRetention({ maxAgeDays: 30 }, { now });
+      const controller = new AbortController();
+
+      const result = await memory.applyRetention(plan, {
+        batchSize: 1,
+        signal: controller.signal,
+        onAudit: () => controller.abort(),
+      });
+
+      expect(result).toMatchObject({ success: 1, failed: 0, succeeded: ['c1'], errors: [], skipped: ['c2', 'c3'] });
+      expect(fetchMock.mock.calls.filter(([url]) => url.endsWith('/prune/execute'))).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  isRetryableError,
+  computeBackoff,
+  parseRetryAfter,
+} from '../src/retry';
+import { HttpTransport, TransportRequest } from '../src/transport';
+import { SekhaAbortError, SekhaAPIError, SekhaAuthError, SekhaConnectionError } from '../src/errors';
+
+const jsonResponse = (status: number, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(status < 300 ? { ok: true } : { error: 'failed' }), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const getRequest: TransportRequest = {
+  method: 'GET',
+  url: 'http://localhost:8080/api/v1/conversations',
+  headers: {},
+};
+
+describe('Retry policy', () => {
+  describe('isRetryableError', () => {
+    it('should retry transient statuses only', () => {
+      expect(isRetryableError(new SekhaAPIError('busy', 503, ''), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(new SekhaAPIError('slow down', 429, ''), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(new SekhaAPIError('conflict', 409, ''), DEFAULT_RETRY_POLICY)).toBe(false);
+      expect(isRetryableError(new SekhaAPIError('unprocessable', 422, ''), DEFAULT_RETRY_POLICY)).toBe(false);
+    });
+
+    it('should treat network failures according to the policy', () => {
+      const noNetwork = resolveRetryPolicy({ retryNetworkErrors: false });
+
+      expect(isRetryableError(new TypeError('fetch failed'), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(new SekhaConnectionError('refused'), DEFAULT_RETRY_POLICY)).toBe(true);
+      expect(isRetryableError(new TypeError('fetch failed'), noNetwork)).toBe(false);
+      expect(isRetryableError(new SekhaAuthError('denied'), DEFAULT_RETRY_POLICY)).toBe(false);
+    });
+  });
+
+  describe('computeBackoff', () => {
+    it('should grow exponentially up to maxDelay', () => {
+      const policy = resolveRetryPolicy({ jitter: 'none', baseDelay: 100, maxDelay: 1000 });
+
+      expect(computeBackoff(0, policy)).toBe(100);
+      expect(computeBackoff(2, policy)).toBe(400);
+      expect(computeBackoff(10, policy)).toBe(1000);
+    });
+
+    it('should apply full and equal jitter', () => {
+      const full = resolveRetryPolicy({ jitter: 'full', baseDelay: 1000 });
+      const equal = resolveRetryPolicy({ jitter: 'equal', baseDelay: 1000 });
+
+      expect(computeBackoff(0, full, () => 0.25)).toBe(250);
+      expect(computeBackoff(0, equal, () => 0)).toBe(500);
+      expect(computeBackoff(0, equal, () => 0.5)).toBe(750);
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    it('should parse delta-seconds', () => {
+      expect(parseRetryAfter('2')).toBe(2000);
+      expect(parseRetryAfter('0.5')).toBe(500);
+    });
+
+    it('should parse HTTP dates', () => {
+      const now = Date.parse('Wed, 21 Oct 2026 07:28:00 GMT');
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:03 GMT', now)).toBe(3000);
+      expect(parseRetryAfter('Wed, 21 Oct 2026 07:27:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null)).toBeUndefined();
+      expect(parseRetryAfter('soon')).toBeUndefined();
+    });
+  });
+
+  describe('HttpTransport', () => {
+    it('should honor Retry-After on 429', async () => {
+      const fetchMock = vi.fn()
+        .mockResolvedValueOnce(jsonResponse(429, { 'Retry-After': '0' }))
+        .mockResolvedValueOnce(jsonResponse(200));
+      const transport = new HttpTransport({ fetch: fetchMock, retry: { baseDelay: 60000 } });
+
+      const response = await transport.send(getRequest);
+
+      expect(response.status).toBe(200);
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should give up when Retry-After exceeds maxRetryAfter', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(429, { 'Retry-After': '120' }));
+      const transport = new HttpTransport({ fetch: fetchMock, retry: { maxRetryAfter: 1000 } });
+
+      await expect(transport.send(getRequest)).rejects.toThrow(SekhaAPIError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not retry permanent 4xx errors', async () => {
+      const fetchMock = vi.fn().mockResolvedValue(jsonResponse(409));
+      const transport = new HttpTransport({ fetch: fetchMock });
+
+      await expect(transport.send(getRequest)).rejects.toThrow(SekhaAPIError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+
+    it('should only retry POST when marked idempotent', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(503));
+      const transport = new HttpTransport({ fetch: fetchMock, retry: { baseDelay: 1, jitter: 'none' } });
+      const post: TransportRequest = { ...getRequest, method: 'POST', body: '{}' };
+
+      await expect(transport.send(post)).rejects.toThrow(SekhaAPIError);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+
+      fetchMock.mockClear();
+      await expect(transport.send({ ...post, idempotent: true })).rejects.toThrow(SekhaAPIError);
+      expect(fetchMock).toHaveBeenCalledTimes(4);
+    });
+
+    it('should stop retrying when the time budget is spent', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(503));
+      const transport = new HttpTransport({
+        fetch: fetchMock,
+        retry: { baseDelay: 50, jitter: 'none', budget: 120 },
+      });
+
+      await expect(transport.send(getRequest)).rejects.toThrow(SekhaAPIError);
+      // 50ms + 100ms backoff would exceed the 120ms budget
+      expect(fetchMock).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop waiting and retrying when aborted during backoff', async () => {
+      const fetchMock = vi.fn().mockImplementation(async () => jsonResponse(503, { 'Retry-After': '5' }));
+      const transport = new HttpTransport({ fetch: fetchMock });
+      const controller = new AbortController();
+      setTimeout(() => controller.abort(), 100);
+
+      const startedAt = Date.now();
+      await expect(transport.send({ ...getRequest, signal: controller.signal })).rejects.toThrow(SekhaAbortError);
+
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  Tracer,
+  Span,
+  SpanOptions,
+  SpanAttributeValue,
+  SpanStatusCode,
+  formatTraceparent,
+} from '../src/tracing';
+import { MemoryController } from '../src/client';
+import { MCPClient } from '../src/mcp';
+import { BridgeClient } from '../src/bridge';
+import { SekhaNotFoundError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+interface RecordedSpan {
+  name: string;
+  options?: SpanOptions;
+  attributes: Record<string, SpanAttributeValue>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * Tracer that records every span it starts
+ */
+const createRecordingTracer = () => {
+  const spans: RecordedSpan[] = [];
+  let counter = 0;
+
+  const tracer: Tracer = {
+    startSpan(name: string, options?: SpanOptions): Span {
+      const record: RecordedSpan = {
+        name,
+        options,
+        attributes: { ...options?.attributes },
+        exceptions: [],
+        ended: false,
+      };
+      spans.push(record);
+      const spanId = (++counter).toString(16).padStart(16, '0');
+
+      return {
+        spanContext: () => ({ traceId: '4bf92f3577b34da6a3ce929d0e0e4736', spanId, traceFlags: 1 }),
+        setAttribute: (key, value) => { record.attributes[key] = value; },
+        setStatus: status => { record.status = status; },
+        recordException: error => { record.exceptions.push(error); },
+        end: () => { record.ended = true; },
+      };
+    },
+  };
+
+  return { tracer, spans };
+};
+
+describe('Tracing', () => {
+  describe('formatTraceparent', () => {
+    it('should format a W3C traceparent value', () => {
+      expect(formatTraceparent({
+        traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+        spanId: '00f067aa0ba902b7',
+        traceFlags: 1,
+      })).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01');
+    });
+
+    it('should skip invalid span contexts', () => {
+      expect(formatTraceparent({
+        traceId: '00000000000000000000000000000000',
+        spanId: '0000000000000000',
+        traceFlags: 0,
+      })).toBeUndefined();
+    });
+  });
+
+  it('should produce a span per controller call with traceparent', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ id: 'conv_1' }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, tracer });
+
+    await memory.get('conv_1');
+
+    expect(spans).toHaveLength(1);
+    const [span] = spans;
+    expect(span.name).toBe('controller GET /api/v1/conversations/{id}');
+    expect(span.options?.kind).toBe(2);
+    expect(span.attributes).toMatchObject({
+      'sekha.endpoint': '/api/v1/conversations/{id}',
+      'http.request.method': 'GET',
+      'http.response.status_code': 200,
+      'sekha.retry_count': 0,
+      'sekha.conversation_id': 'conv_1',
+    });
+    expect(span.attributes['sekha.duration_ms']).toEqual(expect.any(Number));
+    expect(span.ended).toBe(true);
+
+    const [, init] = fetchMock.mock.calls[0];
+    expect(init.headers.traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-0000000000000001-01');
+  });
+
+  it('should record the new conversation ID on store()', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ id: 'conv_new' }, 201));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, tracer });
+
+    await memory.store({ messages: [{ role: 'user', content: 'hi' }], label: 'Test' });
+
+    expect(spans[0].attributes['sekha.conversation_id']).toBe('conv_new');
+  });
+
+  it('should keep count() on its own route without a conversation ID', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ count: 3 }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, tracer });
+
+    await memory.count({ folder: '/work' });
+
+    expect(spans[0].name).toBe('controller GET /api/v1/conversations/count');
+    expect(spans[0].attributes['sekha.endpoint']).toBe('/api/v1/conversations/count');
+    expect(spans[0].attributes['sekha.conversation_id']).toBeUndefined();
+  });
+
+  it('should not fail the request on a malformed conversation ID', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ id: 'x' }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock, tracer });
+
+    await expect(memory.get('bad%E0%A4%A')).resolves.toEqual({ id: 'x' });
+    expect(spans[0].attributes['sekha.conversation_id']).toBe('bad%E0%A4%A');
+  });
+
+  it('should count retries and mark failed spans', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn()
+      .mockImplementationOnce(() => createMockErrorResponse(500, 'boom'))
+      .mockImplementationOnce(() => createMockErrorResponse(404, 'missing'));
+    const memory = new MemoryController({
+      ...mockConfig,
+      fetch: fetchMock,
+      tracer,
+      retry: { baseDelay: 1, jitter: 'none' },
+    });
+
+    await expect(memory.get('conv_9')).rejects.toThrow(SekhaNotFoundError);
+
+    const [span] = spans;
+    expect(span.attributes['sekha.retry_count']).toBe(1);
+    expect(span.attributes['error.type']).toBe('SekhaNotFoundError');
+    expect(span.status?.code).toBe(SpanStatusCode.ERROR);
+    expect(span.exceptions[0]).toBeInstanceOf(SekhaNotFoundError);
+    expect(span.ended).toBe(true);
+  });
+
+  it('should take the conversation ID from MCP request bodies', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ success: true, data: {} }));
+    const mcp = new MCPClient({ baseURL: 'http://localhost:8080', apiKey: mockConfig.apiKey, fetch: fetchMock, tracer });
+
+    await mcp.memoryGetContext('conv_42');
+
+    expect(spans[0].name).toBe('mcp POST /mcp/tools/memory_get_context');
+    expect(spans[0].attributes['sekha.conversation_id']).toBe('conv_42');
+  });
+
+  it('should record completion token usage on bridge spans', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({
+      id: 'cmpl_1',
+      choices: [],
+      usage: { prompt_tokens: 12, completion_tokens: 30, total_tokens: 42 },
+    }));
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, tracer });
+
+    await bridge.complete({ messages: [{ role: 'user', content: 'Hi' }] });
+
+    expect(spans[0].attributes).toMatchObject({
+      'gen_ai.usage.input_tokens': 12,
+      'gen_ai.usage.output_tokens': 30,
+      'sekha.usage.total_tokens': 42,
+    });
+    expect(fetchMock.mock.calls[0][1].headers.traceparent).toMatch(/^00-[0-9a-f]{32}-[0-9a-f]{16}-01$/);
+  });
+
+  it('should keep bridge stream spans open and record streamed usage', async () => {
+    const { tracer, spans } = createRecordingTracer();
+    const events = [
+      { id: 'cmpl_1', model: 'gpt-4', choices: [{ index: 0, delta: { content: 'Hi' }, finish_reason: null }] },
+      { id: 'cmpl_1', model: 'gpt-4', choices: [], usage: { prompt_tokens: 5, completion_tokens: 7, total_tokens: 12 } },
+    ];
+    const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+    const fetchMock = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock, tracer });
+
+    for await (const chunk of bridge.streamComplete({ messages: [{ role: 'user', content: 'Hi' }] })) {
+      void chunk;
+      expect(spans[0].ended).toBe(false);
+    }
+
+    expect(spans[0].ended).toBe(true);
+    expect(spans[0].attributes).toMatchObject({
+      'sekha.stream': true,
+      'gen_ai.usage.input_tokens': 5,
+      'gen_ai.usage.output_tokens': 7,
+      'sekha.usage.total_tokens': 12,
+    });
+  });
+
+  it('should not add headers without a tracer', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    await memory.health();
+
+    expect(fetchMock.mock.calls[0][1].headers.traceparent).toBeUndefined();
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest';
+import { HttpTransport, Transport, TransportRequest } from '../src/transport';
+import { MemoryController } from '../src/client';
+import { MCPClient } from '../src/mcp';
+import { BridgeClient } from '../src/bridge';
+import { SekhaClient } from '../src/unified';
+import { SekhaNotFoundError, SekhaAuthError, SekhaConnectionError } from '../src/errors';
+import { mockConfig, createMockResponse, createMockErrorResponse } from './mocks';
+
+describe('HttpTransport', () => {
+  it('should use injected fetch instead of globalThis.fetch', async () => {
+    const globalFetch = vi.fn();
+    globalThis.fetch = globalFetch;
+    const customFetch = vi.fn().mockResolvedValue(await createMockResponse({ status: 'healthy' }));
+
+    const memory = new MemoryController({ ...mockConfig, fetch: customFetch });
+    const result = await memory.health();
+
+    expect(result.status).toBe('healthy');
+    expect(customFetch).toHaveBeenCalledWith(
+      'http://localhost:8080/health',
+      expect.objectContaining({ method: 'GET' })
+    );
+    expect(globalFetch).not.toHaveBeenCalled();
+  });
+
+  it('should delegate to a custom transport', async () => {
+    const requests: TransportRequest[] = [];
+    const transport: Transport = {
+      send: async (request) => {
+        requests.push(request);
+        return createMockResponse({ success: true, data: { total_conversations: 3 } });
+      },
+    };
+
+    const mcp = new MCPClient({ baseURL: 'http://localhost:8080', apiKey: mockConfig.apiKey, transport });
+    const stats = await mcp.memoryStats();
+
+    expect(stats.data?.total_conversations).toBe(3);
+    expect(requests[0].url).toBe('http://localhost:8080/mcp/tools/memory_stats');
+    expect(requests[0].headers['User-Agent']).toBe('Sekha-JS-SDK-MCP/1.0.0');
+  });
+
+  it('should map errors identically for every client', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockErrorResponse(404, 'Not found'));
+
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock });
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+
+    await expect(bridge.embed({ text: 'hello' })).rejects.toThrow(SekhaNotFoundError);
+    await expect(memory.get('missing')).rejects.toThrow(SekhaNotFoundError);
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('should prefix auth errors with the service name', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockErrorResponse(401, 'Unauthorized'));
+    const bridge = new BridgeClient({ baseURL: 'http://localhost:5001', fetch: fetchMock });
+
+    await expect(bridge.health()).rejects.toThrow(SekhaAuthError);
+    await expect(bridge.health()).rejects.toThrow(/^Bridge authentication failed/);
+  });
+
+  it('should honor per-request maxRetries', async () => {
+    const fetchMock = vi.fn().mockRejectedValue(new Error('Network error'));
+    const transport = new HttpTransport({ fetch: fetchMock, maxRetries: 3 });
+
+    await expect(transport.send({
+      method: 'GET',
+      url: 'http://localhost:8080/health',
+      headers: {},
+      maxRetries: 0,
+    })).rejects.toThrow(SekhaConnectionError);
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass fetch through SekhaClient to every client', async () => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse({ status: 'healthy' }));
+    const sekha = new SekhaClient({
+      controllerURL: 'http://localhost:8080',
+      bridgeURL: 'http://localhost:5001',
+      apiKey: mockConfig.apiKey,
+      fetch: fetchMock,
+    });
+
+    await sekha.healthCheck();
+
+    const urls = fetchMock.mock.calls.map(call => call[0]);
+    expect(urls).toContain('http://localhost:8080/health');
+    expect(urls).toContain('http://localhost:5001/health');
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MemoryController } from '../src/client';
+import { SekhaAPIError, SekhaValidationError } from '../src/errors';
+import { mockConfig, createMockResponse } from './mocks';
+
+const mcpUpdated = (fields: string[]) => ({
+  success: true,
+  data: { conversation_id: 'conv_1', updated_fields: fields, message: 'Updated' },
+});
+
+describe('Conversation updates', () => {
+  const setup = (response: unknown = {}) => {
+    const fetchMock = vi.fn().mockImplementation(() => createMockResponse(response));
+    const memory = new MemoryController({ ...mockConfig, fetch: fetchMock });
+    const calls = () => fetchMock.mock.calls.map(([url, init]) => [
+      new URL(url).pathname,
+      init.method,
+      init.body ? JSON.parse(init.body) : undefined,
+    ]);
+    return { fetchMock, memory, calls };
+  };
+
+  it('should set importance through memory_update', async () => {
+    const { memory, calls } = setup(mcpUpdated(['importance_score']));
+
+    await memory.setImportance('conv_1', 9);
+
+    expect(calls()).toEqual([
+      ['/mcp/tools/memory_update', 'POST', { conversation_id: 'conv_1', importance_score: 9 }],
+    ]);
+  });
+
+  /**
+   * Controller holding one conversation with the given status
+   */
+  const withStatus = (status: string, update: unknown = mcpUpdated(['status'])) => {
+    const { fetchMock, memory, calls } = setup();
+    fetchMock.mockImplementation((url: string) =>
+      createMockResponse(new URL(url).pathname === '/api/v1/conversations/conv_1' ? { id: 'conv_1', status } : update)
+    );
+    return { memory, calls };
+  };
+
+  it('should unpin and unarchive by setting the status to active', async () => {
+    const pinned = withStatus('pinned');
+    await pinned.memory.unpin('conv_1');
+
+    const archived = withStatus('archived');
+    await archived.memory.unarchive('conv_1');
+
+    for (const { calls } of [pinned, archived]) {
+      expect(calls()).toEqual([
+        ['/api/v1/conversations/conv_1', 'GET', undefined],
+        ['/mcp/tools/memory_update', 'POST', { conversation_id: 'conv_1', status: 'active' }],
+      ]);
+    }
+  });
+
+  it('should not unarchive when unpinning or unpin when unarchiving', async () => {
+    const archived = withStatus('archived');
+    await expect(archived.memory.unpin('conv_1')).rejects.toThrow('Conversation is not pinned');
+
+    const pinned = withStatus('pinned');
+    await expect(pinned.memory.unarchive('conv_1')).rejects.toThrow(SekhaValidationError);
+
+    for (const { calls } of [archived, pinned]) {
+      expect(calls()).toEqual([['/api/v1/conversations/conv_1', 'GET', undefined]]);
+    }
+  });
+
+  it('should leave active conversations alone', async () => {
+    const { memory, calls } = withStatus('active');
+
+    await memory.unpin('conv_1');
+    await memory.unarchive('conv_1');
+
+    expect(calls()).toEqual([
+      ['/api/v1/conversations/conv_1', 'GET', undefined],
+      ['/api/v1/conversations/conv_1', 'GET', undefined],
+    ]);
+  });
+
+  it('should use the REST pin and archive endpoints for setStatus', async () => {
+    const { memory, calls } = setup();
+
+    await memory.setStatus('conv_1', 'pinned');
+    await memory.setStatus('conv_1', 'archived');
+
+    expect(calls()).toEqual([
+      ['/api/v1/conversations/conv_1/pin', 'PUT', undefined],
+      ['/api/v1/conversations/conv_1/archive', 'PUT', undefined],
+    ]);
+  });
+
+  it('should fail loudly when memory_update reports failure or skips a field', async () => {
+    const failed = setup({ success: false, error: 'Conversation not found' });
+    await expect(failed.memory.setImportance('conv_1', 5)).rejects.toThrow('MCP tool failed: Conversation not found');
+
+    const skipped = withStatus('pinned', mcpUpdated([]));
+    await expect(skipped.memory.unpin('conv_1')).rejects.toThrow(SekhaAPIError);
+  });
+
+  it('should apply every field passed to update()', async () => {
+    const { fetchMock, memory, calls } = setup();
+    fetchMock
+      .mockImplementationOnce(() => createMockResponse(mcpUpdated(['label'])))
+      .mockImplementationOnce(() => createMockResponse(mcpUpdated(['importance_score'])))
+      .mockImplementationOnce(() => createMockResponse({}));
+
+    await memory.update('conv_1', { label: 'Renamed', importanceScore: 7, status: 'pinned' });
+
+    expect(calls()).toEqual([
+      ['/mcp/tools/memory_update', 'POST', { conversation_id: 'conv_1', label: 'Renamed' }],
+      ['/mcp/tools/memory_update', 'POST', { conversation_id: 'conv_1', importance_score: 7 }],
+      ['/api/v1/conversations/conv_1/pin', 'PUT', undefined],
+    ]);
+  });
+
+  it('should reject fields and values update() cannot apply', async () => {
+    const { fetchMock, memory } = setup();
+
+    await expect(memory.update('conv_1', { title: 'x' } as never)).rejects.toThrow(SekhaValidationError);
+    await expect(memory.update('conv_1', { folder: '/a', importanceScore: NaN })).rejects.toThrow('Invalid importance score');
+    await expect(memory.update('conv_1', { importanceScore: -3 })).rejects.toThrow(SekhaValidationError);
+    await expect(memory.setImportance('conv_1', 42)).rejects.toThrow('Invalid importance score');
+    await expect(memory.setStatus('conv_1', 'deleted' as never)).rejects.toThrow('Invalid status');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});